@@ -0,0 +1,78 @@
+import { AdHocVariableFilter } from '@grafana/data';
+import { applyAdHocFilters, tagValuesQuery } from './adhoc';
+
+const filter = (key: string, operator: string, value: string, values?: string[]): AdHocVariableFilter => ({
+  key,
+  operator,
+  value,
+  values,
+});
+
+describe('applyAdHocFilters', () => {
+  it('adds one search stage after the first stage', () => {
+    const filters = [filter('host', '=', 'web-1'), filter('status', '!=', '200')];
+    expect(applyAdHocFilters('index=web | stats count by host', filters)).toBe(
+      'index=web | search host="web-1" NOT status="200" | stats count by host'
+    );
+  });
+
+  it('leaves the query alone without filters', () => {
+    expect(applyAdHocFilters('index=web', [])).toBe('index=web');
+    expect(applyAdHocFilters('index=web', undefined)).toBe('index=web');
+  });
+
+  it('escapes values', () => {
+    expect(applyAdHocFilters('index=web', [filter('user', '=', 'DOMAIN\\a"b')])).toBe(
+      'index=web | search user="DOMAIN\\\\a\\"b"'
+    );
+  });
+
+  it('quotes keys that are not plain field names', () => {
+    expect(applyAdHocFilters('index=web', [filter('user name', '=', 'a'), filter('a=b', '>', '5')])).toBe(
+      'index=web | search "user name"="a" "a=b">5'
+    );
+    expect(applyAdHocFilters('index=web', [filter('x | delete', '=~', 'a.*')])).toBe(
+      'index=web | regex "x | delete"="a.*"'
+    );
+  });
+
+  it('matches any of several values', () => {
+    expect(applyAdHocFilters('index=web', [filter('host', '=|', '', ['a', 'b'])])).toBe(
+      'index=web | search (host="a" OR host="b")'
+    );
+    expect(applyAdHocFilters('index=web', [filter('host', '!=|', '', ['a', 'b'])])).toBe(
+      'index=web | search NOT (host="a" OR host="b")'
+    );
+  });
+
+  it('compares numbers unquoted', () => {
+    expect(applyAdHocFilters('index=web', [filter('bytes', '<', '1024'), filter('code', '>', 'abc')])).toBe(
+      'index=web | search bytes<1024 code>"abc"'
+    );
+  });
+
+  it('adds a regex stage per regex filter', () => {
+    expect(applyAdHocFilters('index=web', [filter('host', '=', 'a'), filter('uri', '!~', '^/api')])).toBe(
+      'index=web | search host="a" | regex uri!="^/api"'
+    );
+  });
+});
+
+describe('tagValuesQuery', () => {
+  it('lists indexed fields from the index metadata', () => {
+    expect(tagValuesQuery('sourcetype', [], 'web')).toEqual({
+      refId: 'adhoc',
+      variableMode: 'sourcetypes',
+      variableIndex: 'web',
+    });
+  });
+
+  it('narrows field values by the other filters', () => {
+    const filters = [filter('status', '=', '500'), filter('uri', '=', '/a')];
+    expect(tagValuesQuery('uri', filters, 'web')).toMatchObject({
+      variableMode: 'fieldValues',
+      variableField: 'uri',
+      variableFilter: 'status="500"',
+    });
+  });
+});
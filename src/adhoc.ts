@@ -0,0 +1,91 @@
+import { AdHocVariableFilter } from '@grafana/data';
+import { escapeSplunkValue, insertStage } from './spl';
+import { SplunkQuery, VariableMode } from './types';
+import { BARE_FIELD, indexClause, quoted } from './variables';
+
+// Events fieldsummary samples when listing keys; enough to see the common fields
+const KEY_SAMPLE_SIZE = 1000;
+
+// Indexed fields, whose values come from index metadata instead of events
+const METADATA_MODES: Record<string, VariableMode> = {
+  index: 'indexes',
+  host: 'hosts',
+  source: 'sources',
+  sourcetype: 'sourcetypes',
+};
+
+const NUMERIC = /^[-+]?(\d+\.?\d*|\.\d+)$/;
+
+function quote(v: string): string {
+  return `"${escapeSplunkValue(v)}"`;
+}
+
+/** Search listing the field names of a sample of events from the base index. */
+export function tagKeysSearch(baseIndex: string | undefined, defaultIndexes: string[]): string {
+  return `search ${indexClause(baseIndex, defaultIndexes)} | head ${KEY_SAMPLE_SIZE} | fieldsummary | fields field`;
+}
+
+/**
+ * Variable query listing the values of `key`, narrowed by the other active
+ * (non-regex) filters; see variableSearch().
+ */
+export function tagValuesQuery(key: string, filters: AdHocVariableFilter[], baseIndex?: string): SplunkQuery {
+  const mode = METADATA_MODES[key];
+  if (mode) {
+    return { refId: 'adhoc', variableMode: mode, variableIndex: baseIndex };
+  }
+  const others = filters.filter((f) => f.key !== key);
+  return {
+    refId: 'adhoc',
+    variableMode: 'fieldValues',
+    variableIndex: baseIndex,
+    variableField: key,
+    variableFilter: filterTerms(others).terms.join(' ') || undefined,
+  };
+}
+
+/** Search terms (keys quoted when needed, values quoted and escaped) and `regex` stages for ad-hoc filters. */
+function filterTerms(filters: AdHocVariableFilter[]): { terms: string[]; regexes: string[] } {
+  const terms: string[] = [];
+  const regexes: string[] = [];
+  for (const { key: name, operator, value, values } of filters) {
+    const key = quoted(name, BARE_FIELD);
+    const oneOf = (values?.length ? values : [value]).map((v) => `${key}=${quote(v)}`).join(' OR ');
+    switch (operator) {
+      case '=':
+        terms.push(`${key}=${quote(value)}`);
+        break;
+      case '!=':
+        // NOT also keeps events without the field, like != in Loki and Elasticsearch
+        terms.push(`NOT ${key}=${quote(value)}`);
+        break;
+      case '=|':
+        terms.push(`(${oneOf})`);
+        break;
+      case '!=|':
+        terms.push(`NOT (${oneOf})`);
+        break;
+      case '<':
+      case '>':
+        terms.push(`${key}${operator}${NUMERIC.test(value) ? value : quote(value)}`);
+        break;
+      case '=~':
+        regexes.push(`regex ${key}=${quote(value)}`);
+        break;
+      case '!~':
+        regexes.push(`regex ${key}!=${quote(value)}`);
+        break;
+    }
+  }
+  return { terms, regexes };
+}
+
+/**
+ * Adds the active ad-hoc filters to a query right after its first stage: one
+ * `search` with every term, then a `regex` stage per regex filter.
+ */
+export function applyAdHocFilters(spl: string, filters: AdHocVariableFilter[] | undefined): string {
+  const { terms, regexes } = filterTerms(filters ?? []);
+  const stages = [...(terms.length ? [`search ${terms.join(' ')}`] : []), ...regexes];
+  return stages.length ? insertStage(spl, stages.join(' | ')) : spl;
+}
@@ -0,0 +1,88 @@
+import { createDataFrame, FieldType } from '@grafana/data';
+import { firedAlertRows, FIRED_ALERT_MAPPING, framesToAnnotations } from './annotations';
+import { resultsToDataFrame } from './frames';
+
+describe('framesToAnnotations', () => {
+  it('maps rows to events with the configured fields', () => {
+    const frame = resultsToDataFrame(
+      [
+        {
+          _time: '1767322800',
+          end: '1767322860',
+          deploy: 'v2',
+          _raw: 'deployed v2',
+          tags: ['prod', 'web'],
+          team: 'ops',
+        },
+        { _time: '1767322900', end: '1767322900', deploy: 'v3', _raw: '', tags: 'prod', team: '' },
+      ],
+      undefined,
+      { refId: 'A' }
+    );
+    const events = framesToAnnotations([frame], {
+      refId: 'A',
+      timeEndField: 'end',
+      titleField: 'deploy',
+      tagsField: 'tags, team',
+    });
+    expect(events).toEqual([
+      {
+        time: 1767322800000,
+        timeEnd: 1767322860000,
+        isRegion: true,
+        title: 'v2',
+        text: 'deployed v2',
+        tags: ['prod', 'web', 'ops'],
+      },
+      // An end time that is not after the start makes a point, not a region
+      { time: 1767322900000, timeEnd: undefined, isRegion: false, title: 'v3', text: undefined, tags: ['prod'] },
+    ]);
+  });
+
+  it('reads string times and a custom text field', () => {
+    const frame = createDataFrame({
+      fields: [
+        { name: 'at', type: FieldType.string, values: ['2026-01-02T00:00:00Z', 'soon'] },
+        { name: 'msg', type: FieldType.string, values: ['restart', 'skipped'] },
+      ],
+    });
+    const events = framesToAnnotations([frame], { refId: 'A', timeField: 'at', textField: 'msg' });
+    // Rows without a parseable time are skipped
+    expect(events).toEqual([
+      { time: Date.UTC(2026, 0, 2), timeEnd: undefined, isRegion: false, title: undefined, text: 'restart', tags: [] },
+    ]);
+  });
+
+  it('skips frames without the time field', () => {
+    const frame = resultsToDataFrame([{ host: 'web-1' }], undefined, { refId: 'A' });
+    expect(framesToAnnotations([frame], { refId: 'A' })).toEqual([]);
+  });
+});
+
+describe('fired alerts', () => {
+  it('maps fired alerts to annotations with severity and app tags', () => {
+    const rows = firedAlertRows([
+      { name: 'Disk full', app: 'ops', owner: 'admin', severity: 5, triggerTime: 1767322800, sid: 'sid1' },
+      { name: 'Odd', app: 'search', owner: 'bob', severity: 9, triggerTime: '1767322900', sid: 'sid2' },
+    ]);
+    const frame = resultsToDataFrame(rows, undefined, { refId: 'alerts' });
+    expect(framesToAnnotations([frame], { refId: 'alerts', ...FIRED_ALERT_MAPPING })).toEqual([
+      {
+        time: 1767322800000,
+        timeEnd: undefined,
+        isRegion: false,
+        title: 'Disk full',
+        text: 'Severity: critical, app: ops, owner: admin, sid: sid1',
+        tags: ['critical', 'ops'],
+      },
+      {
+        time: 1767322900000,
+        timeEnd: undefined,
+        isRegion: false,
+        title: 'Odd',
+        text: 'Severity: unknown, app: search, owner: bob, sid: sid2',
+        tags: ['unknown', 'search'],
+      },
+    ]);
+  });
+});
@@ -0,0 +1,105 @@
+import { AnnotationEvent, DataFrame, Field, FieldType } from '@grafana/data';
+import { parseSplunkTime, SplunkResultRow } from './frames';
+import { DEFAULT_TIME_FIELD, SplunkQuery } from './types';
+
+// Event text when no text field is configured
+const DEFAULT_TEXT_FIELD = '_raw';
+
+function column(frame: DataFrame, name: string | undefined): Field | undefined {
+  const n = name?.trim();
+  return n ? frame.fields.find((f) => f.name === n) : undefined;
+}
+
+function toMillis(field: Field | undefined, row: number): number | undefined {
+  const v = field?.values[row];
+  const t = field?.type === FieldType.time ? v : parseSplunkTime(v);
+  return typeof t === 'number' && Number.isFinite(t) ? t : undefined;
+}
+
+function toText(field: Field | undefined, row: number): string | undefined {
+  const v = field?.values[row];
+  return v == null || v === '' ? undefined : String(v);
+}
+
+/** Tags from every configured column; multi-value cells arrive joined with ", ". */
+function toTags(fields: Field[], row: number): string[] {
+  const tags = fields.flatMap((f) => (toText(f, row) ?? '').split(','));
+  return [...new Set(tags.map((t) => t.trim()).filter(Boolean))];
+}
+
+/**
+ * Maps the rows of annotation query results to events. Rows without a
+ * parseable time are skipped; an end time after the start makes a region.
+ */
+export function framesToAnnotations(frames: DataFrame[], query: SplunkQuery): AnnotationEvent[] {
+  const events: AnnotationEvent[] = [];
+  for (const frame of frames) {
+    const time = column(frame, query.timeField || DEFAULT_TIME_FIELD);
+    if (!time) {
+      continue;
+    }
+    const timeEnd = column(frame, query.timeEndField);
+    const title = column(frame, query.titleField);
+    const text = column(frame, query.textField || DEFAULT_TEXT_FIELD);
+    const tags = (query.tagsField ?? '')
+      .split(',')
+      .map((n) => column(frame, n))
+      .filter((f): f is Field => !!f);
+
+    for (let i = 0; i < frame.length; i++) {
+      const start = toMillis(time, i);
+      if (start === undefined) {
+        continue;
+      }
+      const end = toMillis(timeEnd, i);
+      const isRegion = end !== undefined && end > start;
+      events.push({
+        time: start,
+        timeEnd: isRegion ? end : undefined,
+        isRegion,
+        title: toText(title, i),
+        text: toText(text, i),
+        tags: toTags(tags, i),
+      });
+    }
+  }
+  return events;
+}
+
+// ---------- Fired alerts ----------
+export interface FiredAlert {
+  name: string; // the alert's saved search
+  app: string;
+  owner: string;
+  severity: number; // 1 (info) to 5 (critical), as set on the alert
+  triggerTime: number | string; // epoch seconds
+  sid: string;
+}
+
+// Splunk Web's labels for alert.severity; 6 (fatal) is shown as critical too
+const ALERT_SEVERITIES = ['', 'info', 'low', 'medium', 'high', 'critical', 'critical'];
+
+/** How fired-alert rows map onto annotation events. */
+export const FIRED_ALERT_MAPPING: Partial<SplunkQuery> = {
+  timeField: DEFAULT_TIME_FIELD,
+  timeEndField: undefined,
+  titleField: 'alert',
+  textField: 'text',
+  tagsField: 'severity, app',
+};
+
+/** One result row per fired alert, in the shape FIRED_ALERT_MAPPING reads. */
+export function firedAlertRows(alerts: FiredAlert[]): SplunkResultRow[] {
+  return alerts.map((a) => {
+    const severity = ALERT_SEVERITIES[a.severity] || 'unknown';
+    return {
+      [DEFAULT_TIME_FIELD]: a.triggerTime,
+      alert: a.name,
+      app: a.app,
+      owner: a.owner,
+      severity,
+      sid: a.sid,
+      text: `Severity: ${severity}, app: ${a.app}, owner: ${a.owner}, sid: ${a.sid}`,
+    };
+  });
+}
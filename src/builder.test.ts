@@ -0,0 +1,63 @@
+import { builderSPL } from './builder';
+import { checkQuery, resolvePolicy } from './guardrails';
+
+describe('builderSPL', () => {
+  it('starts with a search command, as the search jobs endpoint needs', () => {
+    expect(builderSPL({ index: 'web' }, [])).toBe('search index=web');
+    expect(builderSPL(undefined, [])).toBe('search index=*');
+  });
+
+  it('scopes a builder without an index to the default indexes', () => {
+    expect(builderSPL({}, ['web', 'app_*'])).toBe('search (index=web OR index=app_*)');
+  });
+
+  it('quotes values and fields that need it', () => {
+    const spl = builderSPL(
+      {
+        index: 'web',
+        sourcetype: 'access combined',
+        host: 'web-1',
+        filters: [
+          { field: 'status', operator: '>=', value: '500' },
+          { field: 'user name', operator: '=', value: 'a "b"' },
+          { field: 'code', operator: '=', value: '42' },
+          { field: ' ', operator: '=', value: 'ignored' },
+        ],
+      },
+      []
+    );
+    expect(spl).toBe(
+      'search index=web sourcetype="access combined" host=web-1 status>=500 "user name"="a \\"b\\"" code=42'
+    );
+  });
+
+  it('aggregates with stats, split by every chosen field', () => {
+    expect(builderSPL({ index: 'web', aggregation: 'count', splitBy: ['host', 'status'] }, [])).toBe(
+      'search index=web | stats count by host, status'
+    );
+    expect(builderSPL({ index: 'web', aggregation: 'perc', aggregationField: 'latency' }, [])).toBe(
+      'search index=web | stats perc95(latency)'
+    );
+  });
+
+  it('aggregates over time with timechart, split by the first field', () => {
+    expect(builderSPL({ index: 'web', timechart: true, span: '5m', splitBy: ['host', 'status'] }, [])).toBe(
+      'search index=web | timechart span=5m count by host'
+    );
+    expect(
+      builderSPL({ index: 'web', timechart: true, aggregation: 'avg', aggregationField: 'bytes', splitBy: [] }, [])
+    ).toBe('search index=web | timechart avg(bytes)');
+  });
+
+  it('is empty while the aggregation lacks its field', () => {
+    expect(builderSPL({ index: 'web', aggregation: 'sum' }, [])).toBe('');
+  });
+
+  it('generates SPL the index guardrails can check', () => {
+    const policy = resolvePolicy({ allowedIndexes: 'web', requireIndex: true });
+    expect(checkQuery(builderSPL({ index: 'web', timechart: true }, []), policy)).toBeNull();
+    expect(checkQuery(builderSPL({ index: 'secret' }, []), policy)?.message).toBe(
+      'Index "secret" in stage 1 is not in the allowed index list.'
+    );
+  });
+});
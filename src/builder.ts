@@ -0,0 +1,62 @@
+import { BuilderFilter, SplunkBuilderQuery } from './types';
+import { BARE_FIELD, BARE_VALUE, indexClause, quoted } from './variables';
+
+export const DEFAULT_PERCENTILE = 95;
+
+const NUMERIC = /^[-+]?(\d+\.?\d*|\.\d+)$/;
+
+function filterTerm({ field, operator, value }: BuilderFilter): string {
+  const v = operator !== '=' && operator !== '!=' && NUMERIC.test(value) ? value : quoted(value, BARE_VALUE);
+  return `${quoted(field.trim(), BARE_FIELD)}${operator}${v}`;
+}
+
+/** The aggregation expression, e.g. `perc95(latency)`; null for none, '' when its field is missing. */
+function aggregation(b: SplunkBuilderQuery): string | null {
+  const agg = b.aggregation ?? (b.timechart ? 'count' : undefined);
+  if (!agg) {
+    return null;
+  }
+  if (agg === 'count') {
+    return 'count';
+  }
+  const field = b.aggregationField?.trim();
+  if (!field) {
+    return '';
+  }
+  const fn = agg === 'perc' ? `perc${b.percentile ?? DEFAULT_PERCENTILE}` : agg;
+  return `${fn}(${quoted(field, BARE_FIELD)})`;
+}
+
+/**
+ * SPL for the visual builder: a `search` of the index, sourcetype, host and filter
+ * terms, then `stats` (or `timechart`) of the aggregation split by the chosen fields,
+ * e.g. `search index=web sourcetype=access status>=500 | timechart span=5m count by host`.
+ * Returns '' while the aggregation lacks its field. `defaultIndexes` scopes a
+ * builder that picks no index.
+ */
+export function builderSPL(b: SplunkBuilderQuery | undefined, defaultIndexes: string[]): string {
+  const q = b ?? {};
+  const terms = [
+    indexClause(q.index, defaultIndexes),
+    ...(q.sourcetype ? [`sourcetype=${quoted(q.sourcetype, BARE_VALUE)}`] : []),
+    ...(q.host ? [`host=${quoted(q.host, BARE_VALUE)}`] : []),
+    ...(q.filters ?? []).filter((f) => f.field.trim()).map(filterTerm),
+  ];
+  const search = `search ${terms.join(' ')}`;
+
+  const agg = aggregation(q);
+  if (agg === null) {
+    return search;
+  }
+  if (!agg) {
+    return '';
+  }
+  const splitBy = (q.splitBy ?? []).map((f) => quoted(f, BARE_FIELD));
+  if (q.timechart) {
+    const span = q.span?.trim() ? ` span=${q.span.trim()}` : '';
+    const by = splitBy.length ? ` by ${splitBy[0]}` : '';
+    return `${search} | timechart${span} ${agg}${by}`;
+  }
+  const by = splitBy.length ? ` by ${splitBy.join(', ')}` : '';
+  return `${search} | stats ${agg}${by}`;
+}
@@ -0,0 +1,127 @@
+import { ProgressReporter, SearchCache } from './cache';
+
+function deferred<T>() {
+  let resolve!: (value: T) => void;
+  let reject!: (err: unknown) => void;
+  const promise = new Promise<T>((res, rej) => {
+    resolve = res;
+    reject = rej;
+  });
+  return { promise, resolve, reject };
+}
+
+// A search that runs until the test settles it, recording what it was started with
+function pendingSearch<T>() {
+  const result = deferred<T>();
+  const start = jest.fn((signal: AbortSignal, progress: ProgressReporter<number>) => {
+    search.signal = signal;
+    search.progress = progress;
+    return result.promise;
+  });
+  const search = {
+    start,
+    result,
+    signal: undefined as AbortSignal | undefined,
+    progress: undefined as ProgressReporter<number> | undefined,
+  };
+  return search;
+}
+
+const flush = () => new Promise((resolve) => setTimeout(resolve, 0));
+
+describe('SearchCache', () => {
+  it('reuses a finished result within the TTL', async () => {
+    const cache = new SearchCache<string, number>(() => 60_000);
+    const start = jest.fn(async () => 'rows');
+    expect(await cache.run('k', new AbortController().signal, undefined, start)).toBe('rows');
+    expect(await cache.run('k', new AbortController().signal, undefined, start)).toBe('rows');
+    expect(start).toHaveBeenCalledTimes(1);
+  });
+
+  it('runs again with caching disabled', async () => {
+    const cache = new SearchCache<string, number>(() => 0);
+    const start = jest.fn(async () => 'rows');
+    await cache.run('k', new AbortController().signal, undefined, start);
+    await cache.run('k', new AbortController().signal, undefined, start);
+    expect(start).toHaveBeenCalledTimes(2);
+  });
+
+  it('shares a running search and its progress between callers', async () => {
+    const cache = new SearchCache<string, number>(() => 0);
+    const search = pendingSearch<string>();
+    const first = jest.fn();
+    const second = jest.fn();
+    const a = cache.run('k', new AbortController().signal, first, search.start);
+    const b = cache.run('k', new AbortController().signal, second, search.start);
+    await flush();
+
+    search.progress!(50);
+    search.result.resolve('rows');
+    expect(await Promise.all([a, b])).toEqual(['rows', 'rows']);
+    expect(search.start).toHaveBeenCalledTimes(1);
+    expect(first).toHaveBeenCalledWith(50);
+    expect(second).toHaveBeenCalledWith(50);
+  });
+
+  it('tells the search whether any caller takes progress', async () => {
+    const cache = new SearchCache<string, number>(() => 0);
+    const search = pendingSearch<string>();
+    const panel = new AbortController();
+    const variable = cache.run('k', new AbortController().signal, undefined, search.start);
+    await flush();
+    expect(search.progress!.listened()).toBe(false);
+
+    const joined = cache.run('k', panel.signal, jest.fn(), search.start);
+    expect(search.progress!.listened()).toBe(true);
+
+    panel.abort();
+    await expect(joined).rejects.toMatchObject({ name: 'AbortError' });
+    expect(search.progress!.listened()).toBe(false);
+
+    search.result.resolve('rows');
+    expect(await variable).toBe('rows');
+  });
+
+  it('keeps running while any caller remains', async () => {
+    const cache = new SearchCache<string, number>(() => 0);
+    const search = pendingSearch<string>();
+    const gone = new AbortController();
+    const left = cache.run('k', gone.signal, undefined, search.start);
+    const stays = cache.run('k', new AbortController().signal, undefined, search.start);
+    await flush();
+
+    gone.abort();
+    await expect(left).rejects.toMatchObject({ name: 'AbortError' });
+    expect(search.signal!.aborted).toBe(false);
+    search.result.resolve('rows');
+    expect(await stays).toBe('rows');
+  });
+
+  it('aborts the search once every caller has left', async () => {
+    const cache = new SearchCache<string, number>(() => 0);
+    const search = pendingSearch<string>();
+    const panel = new AbortController();
+    const run = cache.run('k', panel.signal, undefined, search.start);
+    await flush();
+
+    panel.abort();
+    await expect(run).rejects.toMatchObject({ name: 'AbortError' });
+    expect(search.signal!.aborted).toBe(true);
+  });
+
+  it('does not cache a failure', async () => {
+    const cache = new SearchCache<string, number>(() => 60_000);
+    const start = jest.fn().mockRejectedValueOnce(new Error('busy')).mockResolvedValueOnce('rows');
+    await expect(cache.run('k', new AbortController().signal, undefined, start)).rejects.toThrow('busy');
+    expect(await cache.run('k', new AbortController().signal, undefined, start)).toBe('rows');
+  });
+
+  it('rejects at once for an aborted signal', async () => {
+    const cache = new SearchCache<string, number>(() => 0);
+    const controller = new AbortController();
+    controller.abort();
+    await expect(cache.run('k', controller.signal, undefined, async () => 'rows')).rejects.toMatchObject({
+      name: 'AbortError',
+    });
+  });
+});
@@ -0,0 +1,123 @@
+// Upper bound on cached result sets per datasource; the oldest entry is evicted first
+const MAX_ENTRIES = 100;
+
+/** Forwards progress to a run's current callers; `listened()` is false while none of them takes progress. */
+export type ProgressReporter<P> = ((progress: P) => void) & { listened: () => boolean };
+
+type Flight<T, P> = {
+  promise: Promise<T>;
+  controller: AbortController;
+  waiters: number;
+  listeners: Set<(progress: P) => void>;
+};
+
+/**
+ * Per-datasource result cache with in-flight deduplication.
+ * - Finished results are kept for `ttlMs()` (0 disables caching).
+ * - Callers asking for a key that is already running join that run and get
+ *   its progress and result; the run is aborted only when every caller has
+ *   aborted, so one panel going away never cancels another panel's search.
+ */
+export class SearchCache<T, P = never> {
+  private readonly results = new Map<string, { value: T; expires: number }>();
+  private readonly inflight = new Map<string, Flight<T, P>>();
+
+  constructor(private readonly ttlMs: () => number) {}
+
+  async run(
+    key: string,
+    signal: AbortSignal,
+    onProgress: ((progress: P) => void) | undefined,
+    start: (signal: AbortSignal, progress: ProgressReporter<P>) => Promise<T>
+  ): Promise<T> {
+    const cached = this.results.get(key);
+    if (cached && cached.expires > Date.now()) {
+      return cached.value;
+    }
+    this.results.delete(key);
+
+    const flight = this.inflight.get(key) ?? this.launch(key, start);
+    flight.waiters++;
+    if (onProgress) {
+      flight.listeners.add(onProgress);
+    }
+
+    const leave = () => {
+      if (onProgress) {
+        flight.listeners.delete(onProgress);
+      }
+      if (--flight.waiters === 0 && this.inflight.get(key) === flight) {
+        this.inflight.delete(key);
+        flight.controller.abort();
+      }
+    };
+
+    try {
+      return await raceAbort(flight.promise, signal);
+    } finally {
+      leave();
+    }
+  }
+
+  private launch(key: string, start: (signal: AbortSignal, progress: ProgressReporter<P>) => Promise<T>): Flight<T, P> {
+    const controller = new AbortController();
+    const listeners = new Set<(progress: P) => void>();
+    const report = Object.assign((p: P) => listeners.forEach((l) => l(p)), { listened: () => listeners.size > 0 });
+    const settle = () => {
+      if (this.inflight.get(key) === flight) {
+        this.inflight.delete(key);
+      }
+    };
+
+    // Started on the next microtask so the launching caller's listener is registered first
+    const promise = Promise.resolve()
+      .then(() => start(controller.signal, report))
+      .then(
+        (value) => {
+          settle();
+          this.store(key, value);
+          return value;
+        },
+        (err) => {
+          settle();
+          throw err;
+        }
+      );
+    // Joiners may all have left; keep a late rejection from surfacing as unhandled
+    promise.catch(() => {});
+
+    const flight: Flight<T, P> = { promise, controller, listeners, waiters: 0 };
+    this.inflight.set(key, flight);
+    return flight;
+  }
+
+  private store(key: string, value: T) {
+    const ttl = this.ttlMs();
+    if (ttl <= 0) {
+      return;
+    }
+    this.results.delete(key);
+    this.results.set(key, { value, expires: Date.now() + ttl });
+    while (this.results.size > MAX_ENTRIES) {
+      this.results.delete(this.results.keys().next().value!);
+    }
+  }
+}
+
+/** Resolves like `promise`, but rejects as soon as `signal` aborts. */
+function raceAbort<T>(promise: Promise<T>, signal: AbortSignal): Promise<T> {
+  if (signal.aborted) {
+    return Promise.reject(abortError());
+  }
+  return new Promise<T>((resolve, reject) => {
+    const onAbort = () => reject(abortError());
+    signal.addEventListener('abort', onAbort, { once: true });
+    promise.then(resolve, reject).finally(() => signal.removeEventListener('abort', onAbort));
+  });
+}
+
+export function abortError(): Error {
+  const err = new Error('Query was cancelled');
+  err.name = 'AbortError';
+  return err;
+}
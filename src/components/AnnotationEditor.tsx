@@ -0,0 +1,113 @@
+import React, { useState } from 'react';
+import { QueryEditorProps, SelectableValue } from '@grafana/data';
+import { Alert, InlineField, InlineFieldRow, Input, RadioButtonGroup, TextArea } from '@grafana/ui';
+import { DataSource } from '../datasource';
+import { checkQuery } from '../guardrails';
+import { AnnotationSource, DEFAULT_TIME_FIELD, SplunkDataSourceOptions, SplunkQuery } from '../types';
+
+type Props = QueryEditorProps<DataSource, SplunkQuery, SplunkDataSourceOptions>;
+
+type TextKey = 'timeField' | 'timeEndField' | 'titleField' | 'textField' | 'tagsField' | 'alertName' | 'alertApp';
+
+const LABEL_WIDTH = 14;
+
+const SOURCES: Array<SelectableValue<AnnotationSource>> = [
+  { label: 'SPL search', value: 'spl', description: 'One annotation per result row' },
+  { label: 'Fired alerts', value: 'firedAlerts', description: 'Alerts Splunk triggered in the dashboard range' },
+];
+
+/**
+ * Annotation query editor: either an SPL search run over the dashboard range
+ * plus the result columns that become each annotation's time, end, title, text
+ * and tags, or a filter on the alerts Splunk has fired.
+ */
+export const AnnotationEditor = ({ datasource, query, onChange, onRunQuery }: Props) => {
+  const [text, setText] = useState<string>(query.queryText ?? '');
+  const violation = text.trim() ? checkQuery(text, datasource.guardrails) : null;
+
+  const commit = (patch: Partial<SplunkQuery>) => {
+    onChange({ ...query, ...patch });
+    onRunQuery();
+  };
+
+  const textInput = (key: TextKey, placeholder: string) => (
+    <Input
+      width={24}
+      defaultValue={query[key] ?? ''}
+      placeholder={placeholder}
+      onBlur={(e) => commit({ [key]: e.currentTarget.value.trim() || undefined })}
+    />
+  );
+
+  const sourceRow = (
+    <InlineFieldRow>
+      <InlineField label="Source" labelWidth={LABEL_WIDTH}>
+        <RadioButtonGroup
+          options={SOURCES}
+          value={query.annotationSource ?? 'spl'}
+          onChange={(v) => commit({ annotationSource: v })}
+        />
+      </InlineField>
+    </InlineFieldRow>
+  );
+
+  if (query.annotationSource === 'firedAlerts') {
+    return (
+      <>
+        {sourceRow}
+        <InlineFieldRow>
+          <InlineField
+            label="Alert name"
+            labelWidth={LABEL_WIDTH}
+            tooltip="Name of the alert's saved search; * is a wildcard. Empty shows every alert."
+          >
+            {textInput('alertName', 'all alerts')}
+          </InlineField>
+          <InlineField label="App" tooltip="Only alerts of this app. Empty shows every app.">
+            {textInput('alertApp', 'all apps')}
+          </InlineField>
+        </InlineFieldRow>
+      </>
+    );
+  }
+
+  return (
+    <>
+      {sourceRow}
+      <InlineFieldRow>
+        <InlineField label="SPL" labelWidth={LABEL_WIDTH} grow>
+          <TextArea
+            name="queryText"
+            rows={4}
+            value={text}
+            placeholder="index=ops sourcetype=deploy | table _time, app, version, user, _raw"
+            onChange={(e) => setText(e.currentTarget.value)}
+            onBlur={() => commit({ queryText: text })}
+          />
+        </InlineField>
+      </InlineFieldRow>
+      {violation ? <Alert title={violation.message} severity={violation.dangerous ? 'error' : 'warning'} /> : null}
+
+      <InlineFieldRow>
+        <InlineField label="Time field" labelWidth={LABEL_WIDTH} tooltip="Column holding the annotation time.">
+          {textInput('timeField', DEFAULT_TIME_FIELD)}
+        </InlineField>
+        <InlineField label="End time field" tooltip="Optional; a later end time turns the annotation into a region.">
+          {textInput('timeEndField', 'none')}
+        </InlineField>
+      </InlineFieldRow>
+      <InlineFieldRow>
+        <InlineField label="Title field" labelWidth={LABEL_WIDTH}>
+          {textInput('titleField', 'none')}
+        </InlineField>
+        <InlineField label="Text field">{textInput('textField', '_raw')}</InlineField>
+        <InlineField
+          label="Tags fields"
+          tooltip="Comma-separated columns; each value (multi-value fields included) becomes a tag."
+        >
+          {textInput('tagsField', 'e.g. app, host')}
+        </InlineField>
+      </InlineFieldRow>
+    </>
+  );
+};
@@ -1,46 +1,78 @@
 import React, { PureComponent, ChangeEvent } from 'react';
-import { DataSourcePluginOptionsEditorProps } from '@grafana/data';
+import { DataSourcePluginOptionsEditorProps, SelectableValue } from '@grafana/data';
 import {
   DataSourceHttpSettings,
   FieldSet,
   InlineField,
   InlineFieldRow,
+  IconButton,
   Input,
+  RadioButtonGroup,
+  Select,
   Switch,
   TextArea,
   Button,
 } from '@grafana/ui';
-import { SplunkDataSourceOptions, SplunkSecureJsonData } from '../types';
+import {
+  DEFAULT_MAX_RANGE_SECONDS,
+  DEFAULT_PRESET,
+  GUARDRAIL_PRESETS,
+  isBannedListOverridden,
+  validateBannedCommands,
+} from '../guardrails';
+import {
+  EXEC_MODES,
+  GuardrailPreset,
+  SplunkDataLink,
+  SplunkDataSourceOptions,
+  SplunkExecMode,
+  SplunkSecureJsonData,
+} from '../types';
 
 type Props = DataSourcePluginOptionsEditorProps<SplunkDataSourceOptions>;
 
+const PRESETS: Array<SelectableValue<GuardrailPreset>> = [
+  { label: 'Strict', value: 'strict', description: 'Also blocks exports, job reuse and DB Connect' },
+  { label: 'Standard', value: 'standard', description: 'Blocks side effects, REST calls and map subsearches' },
+  { label: 'Permissive', value: 'permissive', description: 'Blocks only commands with side effects' },
+];
+
 const DEFAULTS = {
   // Guardrails
   safeMode: true,
-  maxRangeSeconds: 24 * 60 * 60,
+  maxRangeSeconds: DEFAULT_MAX_RANGE_SECONDS,
+  clampTimeRange: false,
   maxRows: 2000,
   pageSize: 200,
   pollIntervalMs: 1000,
   maxPolls: 30,
   requestTimeoutMs: 30000,
+  queryTimeoutSeconds: 300,
+  maxConcurrentSearches: 3,
+  streamPartialResults: true,
+  execMode: 'normal' as SplunkExecMode,
+
+  // Result cache
+  cacheTtlSeconds: 30,
+  cacheGranularitySeconds: 10,
 
   // Commands
+  guardrailPreset: DEFAULT_PRESET,
   overrideBannedCommands: false,
-  bannedCommands: [
-    'outputlookup',
-    'sendemail',
-    'rest',
-    'delete',
-    'collect',
-    'sendalert',
-    'runshellscript',
-    'script',
-    'mcollect',
-    'loadjob',
-    'map\\s+\\[',
-  ].join('\n'),
   allowDangerousCommands: false,
 
+  // Data scope
+  allowedIndexes: '',
+  requireIndex: false,
+  adHocIndex: '',
+
+  // Namespace
+  defaultApp: '',
+  defaultOwner: '',
+
+  // Splunk Web
+  splunkWebUrl: '',
+
   // Custom header default
   httpHeaderName1: 'Authorization',
 };
@@ -78,35 +110,54 @@ export class ConfigEditor extends PureComponent<Props> {
   };
 
   private onNumber =
-    (key: keyof SplunkDataSourceOptions | keyof typeof DEFAULTS) =>
-    (e: ChangeEvent<HTMLInputElement>) => {
+    (key: keyof SplunkDataSourceOptions | keyof typeof DEFAULTS) => (e: ChangeEvent<HTMLInputElement>) => {
       const v = Number(e.currentTarget.value);
       this.update({ [key as any]: Number.isFinite(v) && v >= 0 ? v : 0 } as any);
     };
 
   private onText =
-    (key: keyof SplunkDataSourceOptions | keyof typeof DEFAULTS) =>
-    (e: ChangeEvent<HTMLInputElement>) => {
+    (key: keyof SplunkDataSourceOptions | keyof typeof DEFAULTS) => (e: ChangeEvent<HTMLInputElement>) => {
       this.update({ [key as any]: e.currentTarget.value } as any);
     };
 
   private onTextArea =
-    (key: keyof SplunkDataSourceOptions | keyof typeof DEFAULTS) =>
-    (e: ChangeEvent<HTMLTextAreaElement>) => {
+    (key: keyof SplunkDataSourceOptions | keyof typeof DEFAULTS) => (e: ChangeEvent<HTMLTextAreaElement>) => {
       this.update({ [key as any]: e.currentTarget.value } as any);
     };
 
-  private onToggle =
-    (key: keyof SplunkDataSourceOptions | keyof typeof DEFAULTS) =>
-    (v: boolean) => {
-      this.update({ [key as any]: v } as any);
-    };
+  private onToggle = (key: keyof SplunkDataSourceOptions | keyof typeof DEFAULTS) => (v: boolean) => {
+    this.update({ [key as any]: v } as any);
+  };
+
+  private presetText = (preset: GuardrailPreset) => GUARDRAIL_PRESETS[preset].join('\n');
+
+  // Start a custom list from the selected preset so overriding never begins empty
+  private onOverride = (v: boolean) => {
+    const jd = this.props.options.jsonData || {};
+    const patch: Partial<SplunkDataSourceOptions> = { overrideBannedCommands: v };
+    if (v && !jd.bannedCommands?.trim()) {
+      patch.bannedCommands = this.presetText(jd.guardrailPreset ?? DEFAULTS.guardrailPreset);
+    }
+    this.update(patch);
+  };
 
   private resetBanned = () => {
-    this.update({
-      bannedCommands: DEFAULTS.bannedCommands,
-      overrideBannedCommands: false,
-    });
+    this.update({ bannedCommands: undefined, overrideBannedCommands: false });
+  };
+
+  private setDataLink = (i: number, patch: Partial<SplunkDataLink>) => {
+    const links = this.props.options.jsonData?.dataLinks ?? [];
+    this.update({ dataLinks: links.map((l, j) => (j === i ? { ...l, ...patch } : l)) });
+  };
+
+  private addDataLink = () => {
+    const links = this.props.options.jsonData?.dataLinks ?? [];
+    this.update({ dataLinks: [...links, { field: '', search: '' }] });
+  };
+
+  private removeDataLink = (i: number) => {
+    const links = this.props.options.jsonData?.dataLinks ?? [];
+    this.update({ dataLinks: links.filter((_, j) => j !== i) });
   };
 
   render() {
@@ -118,17 +169,41 @@ export class ConfigEditor extends PureComponent<Props> {
     // Guardrails
     const safeMode = jd.safeMode ?? DEFAULTS.safeMode;
     const maxRangeSeconds = jd.maxRangeSeconds ?? DEFAULTS.maxRangeSeconds;
+    const clampTimeRange = jd.clampTimeRange ?? DEFAULTS.clampTimeRange;
     const maxRows = jd.maxRows ?? DEFAULTS.maxRows;
     const pageSize = jd.pageSize ?? DEFAULTS.pageSize;
     const pollIntervalMs = jd.pollIntervalMs ?? DEFAULTS.pollIntervalMs;
     const maxPolls = jd.maxPolls ?? DEFAULTS.maxPolls;
     const requestTimeoutMs = jd.requestTimeoutMs ?? DEFAULTS.requestTimeoutMs;
+    const queryTimeoutSeconds = jd.queryTimeoutSeconds ?? DEFAULTS.queryTimeoutSeconds;
+    const maxConcurrentSearches = jd.maxConcurrentSearches ?? DEFAULTS.maxConcurrentSearches;
+    const streamPartialResults = jd.streamPartialResults ?? DEFAULTS.streamPartialResults;
+    const execMode = jd.execMode ?? DEFAULTS.execMode;
+
+    // Result cache
+    const cacheTtlSeconds = jd.cacheTtlSeconds ?? DEFAULTS.cacheTtlSeconds;
+    const cacheGranularitySeconds = jd.cacheGranularitySeconds ?? DEFAULTS.cacheGranularitySeconds;
 
     // Commands
-    const overrideBannedCommands = jd.overrideBannedCommands ?? DEFAULTS.overrideBannedCommands;
-    const bannedCommands = jd.bannedCommands ?? DEFAULTS.bannedCommands;
+    const guardrailPreset = jd.guardrailPreset ?? DEFAULTS.guardrailPreset;
+    const overrideBannedCommands = isBannedListOverridden(jd);
+    const bannedCommands = overrideBannedCommands ? jd.bannedCommands ?? '' : this.presetText(guardrailPreset);
+    const bannedErrors = overrideBannedCommands ? validateBannedCommands(bannedCommands) : [];
     const allowDangerousCommands = jd.allowDangerousCommands ?? DEFAULTS.allowDangerousCommands;
 
+    // Data scope
+    const allowedIndexes = jd.allowedIndexes ?? DEFAULTS.allowedIndexes;
+    const requireIndex = jd.requireIndex ?? DEFAULTS.requireIndex;
+    const adHocIndex = jd.adHocIndex ?? DEFAULTS.adHocIndex;
+
+    // Namespace
+    const defaultApp = jd.defaultApp ?? DEFAULTS.defaultApp;
+    const defaultOwner = jd.defaultOwner ?? DEFAULTS.defaultOwner;
+
+    // Splunk Web
+    const splunkWebUrl = jd.splunkWebUrl ?? DEFAULTS.splunkWebUrl;
+    const dataLinks = jd.dataLinks ?? [];
+
     // Custom header (token)
     const headerName = jd.httpHeaderName1 ?? DEFAULTS.httpHeaderName1;
     const headerConfigured = !!sFields.httpHeaderValue1;
@@ -184,6 +259,17 @@ export class ConfigEditor extends PureComponent<Props> {
               <Input type="number" value={maxRangeSeconds} min={0} onChange={this.onNumber('maxRangeSeconds')} />
             </InlineField>
 
+            <InlineField
+              label="Clamp time range"
+              tooltip="Search only the most recent part of an over-long range (with a notice) instead of rejecting the query."
+              grow
+            >
+              <Switch
+                value={clampTimeRange}
+                onChange={(e) => this.onToggle('clampTimeRange')(e.currentTarget.checked)}
+              />
+            </InlineField>
+
             <InlineField label="Max rows" tooltip="Cap on total rows returned per query." grow>
               <Input type="number" value={maxRows} min={0} onChange={this.onNumber('maxRows')} />
             </InlineField>
@@ -194,7 +280,11 @@ export class ConfigEditor extends PureComponent<Props> {
           </InlineFieldRow>
 
           <InlineFieldRow>
-            <InlineField label="Poll interval (ms)" tooltip="Interval between job status checks." grow>
+            <InlineField
+              label="Poll interval (ms)"
+              tooltip="Interval before the first job status check; later checks back off, up to 5 s apart."
+              grow
+            >
               <Input type="number" value={pollIntervalMs} min={100} onChange={this.onNumber('pollIntervalMs')} />
             </InlineField>
 
@@ -202,14 +292,108 @@ export class ConfigEditor extends PureComponent<Props> {
               <Input type="number" value={maxPolls} min={1} onChange={this.onNumber('maxPolls')} />
             </InlineField>
 
-            <InlineField label="Request timeout (ms)" tooltip="Bound single HTTP call (best effort)." grow>
+            <InlineField
+              label="Request timeout (ms)"
+              tooltip="Limit for each call to Splunk. Calls answered with 429, 503 or a search quota error are retried up to 3 times with backoff. 0 = no limit."
+              grow
+            >
               <Input type="number" value={requestTimeoutMs} min={0} onChange={this.onNumber('requestTimeoutMs')} />
             </InlineField>
+
+            <InlineField
+              label="Query timeout (s)"
+              tooltip="Limit for a whole query: waiting for a search slot, retries, polling and paging. Its search job is then cancelled unless another panel shares it. 0 = no limit."
+              grow
+            >
+              <Input
+                type="number"
+                value={queryTimeoutSeconds}
+                min={0}
+                onChange={this.onNumber('queryTimeoutSeconds')}
+              />
+            </InlineField>
+
+            <InlineField
+              label="Max concurrent searches"
+              tooltip="Searches this datasource runs at once across all panels; further queries wait in a queue and show their position. Keep it within the Splunk user's search quota. 0 = no limit."
+              grow
+            >
+              <Input
+                type="number"
+                value={maxConcurrentSearches}
+                min={0}
+                onChange={this.onNumber('maxConcurrentSearches')}
+              />
+            </InlineField>
+
+            <InlineField
+              label="Stream partial results"
+              tooltip="Show preview results and job progress while a search is still running."
+              grow
+            >
+              <Switch
+                value={streamPartialResults}
+                onChange={(e) => this.onToggle('streamPartialResults')(e.currentTarget.checked)}
+              />
+            </InlineField>
+
+            <InlineField
+              label="Execution mode"
+              tooltip="Default for queries without their own. Oneshot/blocking/export skip status polling; only Normal can be cancelled and stream previews."
+              grow
+            >
+              <Select
+                width={20}
+                options={EXEC_MODES}
+                value={execMode}
+                onChange={(v) => this.update({ execMode: v.value })}
+              />
+            </InlineField>
+          </InlineFieldRow>
+        </FieldSet>
+
+        {/* Result cache */}
+        <FieldSet label="Result Cache" style={{ marginTop: 16 }}>
+          <InlineFieldRow>
+            <InlineField
+              label="Cache TTL (s)"
+              tooltip="Reuse results of an identical search (same SPL and time window) for this long. 0 disables caching; identical searches that are still running are always shared."
+              grow
+            >
+              <Input type="number" value={cacheTtlSeconds} min={0} onChange={this.onNumber('cacheTtlSeconds')} />
+            </InlineField>
+
+            <InlineField
+              label="Time rounding (s)"
+              tooltip="Widen the search window to multiples of this many seconds so refreshes and panels share results. 0 searches the exact range."
+              grow
+            >
+              <Input
+                type="number"
+                value={cacheGranularitySeconds}
+                min={0}
+                onChange={this.onNumber('cacheGranularitySeconds')}
+              />
+            </InlineField>
           </InlineFieldRow>
         </FieldSet>
 
         {/* Command Controls */}
         <FieldSet label="Command Controls" style={{ marginTop: 16 }}>
+          <InlineFieldRow>
+            <InlineField
+              label="Preset"
+              tooltip="Built-in banned-command list. Ignored while the banned list is overridden."
+              disabled={overrideBannedCommands || allowDangerousCommands}
+            >
+              <RadioButtonGroup
+                options={PRESETS}
+                value={guardrailPreset}
+                onChange={(v) => this.update({ guardrailPreset: v })}
+              />
+            </InlineField>
+          </InlineFieldRow>
+
           <InlineFieldRow>
             <InlineField label="Allow dangerous commands" tooltip="Disable deny‑list checks (NOT RECOMMENDED)." grow>
               <Switch
@@ -222,30 +406,157 @@ export class ConfigEditor extends PureComponent<Props> {
               tooltip="Use a custom list of banned commands (one per line, regex supported)."
               grow
             >
-              <Switch
-                value={overrideBannedCommands}
-                onChange={(e) => this.onToggle('overrideBannedCommands')(e.currentTarget.checked)}
-              />
+              <Switch value={overrideBannedCommands} onChange={(e) => this.onOverride(e.currentTarget.checked)} />
             </InlineField>
           </InlineFieldRow>
 
           <InlineFieldRow>
             <InlineField
               label="Banned commands"
-              tooltip="Each line is a regex fragment with word boundaries. Example: outputlookup"
+              tooltip="Each line is a regex fragment matched against the command that starts each pipeline stage, subsearches included. Example: outputlookup"
+              invalid={bannedErrors.length > 0}
+              error={bannedErrors.join('; ')}
+              disabled={allowDangerousCommands}
               grow
             >
               <TextArea
                 value={bannedCommands}
                 rows={6}
                 onChange={this.onTextArea('bannedCommands')}
-                placeholder={DEFAULTS.bannedCommands}
+                readOnly={!overrideBannedCommands}
+                placeholder={this.presetText(guardrailPreset)}
               />
             </InlineField>
           </InlineFieldRow>
 
           <Button variant="secondary" onClick={this.resetBanned}>
-            Reset banned list to defaults
+            Reset banned list to preset
+          </Button>
+        </FieldSet>
+
+        {/* Data scope */}
+        <FieldSet label="Data Scope" style={{ marginTop: 16 }}>
+          <InlineFieldRow>
+            <InlineField
+              label="Require explicit index"
+              tooltip="Reject searches that do not name an index (and would read the role's default indexes) or that use index=*."
+              grow
+            >
+              <Switch value={requireIndex} onChange={(e) => this.onToggle('requireIndex')(e.currentTarget.checked)} />
+            </InlineField>
+
+            <InlineField
+              label="Ad-hoc filter index"
+              tooltip="Comma-separated indexes whose fields and values the ad-hoc filter bar offers. Empty uses the allowed indexes, else all."
+              grow
+            >
+              <Input
+                width={40}
+                value={adHocIndex}
+                placeholder={allowedIndexes.split('\n').filter(Boolean).join(', ') || '*'}
+                onChange={this.onText('adHocIndex')}
+              />
+            </InlineField>
+          </InlineFieldRow>
+
+          <InlineFieldRow>
+            <InlineField
+              label="Allowed indexes"
+              tooltip="One index per line; * is a wildcard (e.g. web_*). Leave empty to allow any index. Checked in every index-scanning stage, subsearches included; a stage must then name an index. Terms ORed with an index term (index=main OR sourcetype=x) also read the role's default indexes, so keep those within this list on the Splunk side."
+              grow
+            >
+              <TextArea
+                value={allowedIndexes}
+                rows={4}
+                onChange={this.onTextArea('allowedIndexes')}
+                placeholder={'main\nweb_*'}
+              />
+            </InlineField>
+          </InlineFieldRow>
+        </FieldSet>
+
+        {/* Namespace */}
+        <FieldSet label="Search Namespace" style={{ marginTop: 16 }}>
+          <InlineFieldRow>
+            <InlineField
+              label="Default app"
+              tooltip="App context searches run in (/servicesNS/{owner}/{app}/search/jobs), so its macros, lookups, eventtypes and field extractions resolve. Queries can pick another app. Empty with no owner uses the service user's default app."
+              grow
+            >
+              <Input
+                width={30}
+                value={defaultApp}
+                placeholder={defaultOwner ? 'search' : 'user default'}
+                onChange={this.onText('defaultApp')}
+              />
+            </InlineField>
+
+            <InlineField
+              label="Default owner"
+              tooltip="User whose private knowledge objects searches can use. Empty means nobody: only objects shared with the app or globally."
+              grow
+            >
+              <Input
+                width={30}
+                value={defaultOwner}
+                placeholder={defaultApp ? 'nobody' : 'user default'}
+                onChange={this.onText('defaultOwner')}
+              />
+            </InlineField>
+          </InlineFieldRow>
+        </FieldSet>
+
+        {/* Splunk Web */}
+        <FieldSet label="Splunk Web" style={{ marginTop: 16 }}>
+          <InlineFieldRow>
+            <InlineField
+              label="Splunk Web URL"
+              tooltip="Base URL of Splunk Web (not the management port). Enables the Open in Splunk links in the query editor and on panels, and the data links below."
+              grow
+            >
+              <Input
+                width={60}
+                value={splunkWebUrl}
+                placeholder="https://splunk.example.com:8000"
+                onChange={this.onText('splunkWebUrl')}
+              />
+            </InlineField>
+          </InlineFieldRow>
+
+          {dataLinks.map((link, i) => (
+            <InlineFieldRow key={i}>
+              <InlineField label="Field" tooltip="Result field whose values get the link.">
+                <Input
+                  width={20}
+                  value={link.field}
+                  placeholder="host"
+                  onChange={(e) => this.setDataLink(i, { field: e.currentTarget.value })}
+                />
+              </InlineField>
+              <InlineField label="Title">
+                <Input
+                  width={24}
+                  value={link.title ?? ''}
+                  placeholder={`Search ${link.field || 'field'} in Splunk`}
+                  onChange={(e) => this.setDataLink(i, { title: e.currentTarget.value || undefined })}
+                />
+              </InlineField>
+              <InlineField
+                label="Search"
+                tooltip="SPL run over the dashboard time range; $value is the clicked value, inserted as is."
+                grow
+              >
+                <Input
+                  value={link.search}
+                  placeholder='index=web host="$value"'
+                  onChange={(e) => this.setDataLink(i, { search: e.currentTarget.value })}
+                />
+              </InlineField>
+              <IconButton name="trash-alt" tooltip="Remove data link" onClick={() => this.removeDataLink(i)} />
+            </InlineFieldRow>
+          ))}
+          <Button variant="secondary" icon="plus" onClick={this.addDataLink} disabled={!splunkWebUrl.trim()}>
+            Add data link
           </Button>
         </FieldSet>
       </div>
@@ -0,0 +1,243 @@
+import React, { useEffect, useState } from 'react';
+import { SelectableValue, TimeRange } from '@grafana/data';
+import { getTemplateSrv } from '@grafana/runtime';
+import { Button, IconButton, InlineField, InlineFieldRow, InlineSwitch, Input, MultiSelect, Select } from '@grafana/ui';
+import { DEFAULT_PERCENTILE } from '../builder';
+import { DataSource } from '../datasource';
+import { BuilderAggregation, BuilderFilter, BuilderOperator, SplunkBuilderQuery, VariableMode } from '../types';
+
+type Props = {
+  datasource: DataSource;
+  builder: SplunkBuilderQuery;
+  range?: TimeRange;
+  onChange: (builder: SplunkBuilderQuery) => void;
+};
+
+const LABEL_WIDTH = 14;
+
+const AGGREGATIONS: Array<SelectableValue<BuilderAggregation | ''>> = [
+  { label: 'None', value: '', description: 'The matching events' },
+  { label: 'Count', value: 'count' },
+  { label: 'Average', value: 'avg' },
+  { label: 'Sum', value: 'sum' },
+  { label: 'Distinct count', value: 'dc' },
+  { label: 'Percentile', value: 'perc' },
+];
+
+const OPERATORS: Array<SelectableValue<BuilderOperator>> = ['=', '!=', '>', '>=', '<', '<='].map((op) => ({
+  label: op,
+  value: op as BuilderOperator,
+}));
+
+const option = (v: string): SelectableValue<string> => ({ label: v, value: v });
+
+const variableOptions = (): Array<SelectableValue<string>> =>
+  getTemplateSrv()
+    .getVariables()
+    .map((v) => option(`$${v.name}`));
+
+/**
+ * Options fetched from Splunk when a menu first opens, and again after `scope`
+ * changes, preceded by the dashboard variables.
+ */
+function useLazyOptions(load: () => Promise<string[]>, scope: string | undefined) {
+  const [options, setOptions] = useState<Array<SelectableValue<string>> | null>(null);
+  const [loading, setLoading] = useState(false);
+
+  useEffect(() => setOptions(null), [scope]);
+
+  const open = async () => {
+    if (options || loading) {
+      return;
+    }
+    setLoading(true);
+    const values = await load().catch((): string[] => []);
+    setOptions([...variableOptions(), ...values.map(option)]);
+    setLoading(false);
+  };
+  return { options: options ?? [], isLoading: loading, onOpenMenu: open };
+}
+
+type PickerProps = {
+  value: string | undefined;
+  placeholder: string;
+  load: () => Promise<string[]>;
+  scope?: string;
+  width?: number;
+  onChange: (value: string | undefined) => void;
+};
+
+/** Select of values fetched from Splunk; typed values are accepted too. */
+const Picker = ({ value, placeholder, load, scope, width = 24, onChange }: PickerProps) => (
+  <Select
+    {...useLazyOptions(load, scope)}
+    width={width}
+    value={value ? option(value) : null}
+    onChange={(v) => onChange(v?.value || undefined)}
+    placeholder={placeholder}
+    allowCustomValue
+    isClearable
+  />
+);
+
+/**
+ * Visual query builder: where to search (index, sourcetype, host, field
+ * filters) and what to compute (an aggregation split by fields, optionally
+ * over time). The SPL is generated by builderSPL().
+ */
+export const QueryBuilder = ({ datasource, builder, range, onChange }: Props) => {
+  const update = (patch: Partial<SplunkBuilderQuery>) => onChange({ ...builder, ...patch });
+  const filters = builder.filters ?? [];
+  const setFilter = (i: number, patch: Partial<BuilderFilter>) =>
+    update({ filters: filters.map((f, j) => (j === i ? { ...f, ...patch } : f)) });
+
+  const metadata = (variableMode: VariableMode) => async () => {
+    const values = await datasource.metricFindQuery(
+      { refId: 'builder', variableMode, variableIndex: builder.index },
+      { range }
+    );
+    return values.map((v) => String(v.value ?? v.text));
+  };
+  const fields = () => datasource.getFieldNames(builder.index, range);
+  const fieldPicker = (value: string | undefined, onPick: (v: string | undefined) => void) => (
+    <Picker value={value} placeholder="field" load={fields} scope={builder.index} onChange={onPick} />
+  );
+
+  const fieldOptions = useLazyOptions(fields, builder.index);
+  const agg = builder.aggregation ?? (builder.timechart ? 'count' : undefined);
+  const needsField = !!agg && agg !== 'count';
+  const splitBy = builder.splitBy ?? [];
+
+  return (
+    <>
+      <InlineFieldRow>
+        <InlineField label="Index" labelWidth={LABEL_WIDTH}>
+          <Picker
+            value={builder.index}
+            placeholder={datasource.guardrails.allowedIndexes.join(', ') || 'all indexes'}
+            load={metadata('indexes')}
+            onChange={(index) => update({ index })}
+          />
+        </InlineField>
+        <InlineField label="Sourcetype">
+          <Picker
+            value={builder.sourcetype}
+            placeholder="any"
+            load={metadata('sourcetypes')}
+            scope={builder.index}
+            onChange={(sourcetype) => update({ sourcetype })}
+          />
+        </InlineField>
+        <InlineField label="Host">
+          <Picker
+            value={builder.host}
+            placeholder="any"
+            load={metadata('hosts')}
+            scope={builder.index}
+            onChange={(host) => update({ host })}
+          />
+        </InlineField>
+      </InlineFieldRow>
+
+      {filters.map((f, i) => (
+        // Keyed by the row count too, so removing a row resets the value inputs below it
+        <InlineFieldRow key={`${i}/${filters.length}`}>
+          <InlineField label={i === 0 ? 'Filters' : ''} labelWidth={LABEL_WIDTH}>
+            {fieldPicker(f.field || undefined, (field) => setFilter(i, { field: field ?? '' }))}
+          </InlineField>
+          <InlineField>
+            <Select
+              width={8}
+              options={OPERATORS}
+              value={f.operator}
+              onChange={(v) => setFilter(i, { operator: v.value ?? '=' })}
+            />
+          </InlineField>
+          <InlineField>
+            <Input
+              width={24}
+              defaultValue={f.value}
+              placeholder="value, * wildcards"
+              onBlur={(e) => setFilter(i, { value: e.currentTarget.value })}
+            />
+          </InlineField>
+          <IconButton
+            name="trash-alt"
+            tooltip="Remove filter"
+            onClick={() => update({ filters: filters.filter((_, j) => j !== i) })}
+          />
+        </InlineFieldRow>
+      ))}
+      <InlineFieldRow>
+        <InlineField label={filters.length ? '' : 'Filters'} labelWidth={LABEL_WIDTH}>
+          <Button
+            variant="secondary"
+            icon="plus"
+            size="sm"
+            onClick={() => update({ filters: [...filters, { field: '', operator: '=', value: '' }] })}
+          >
+            Filter
+          </Button>
+        </InlineField>
+      </InlineFieldRow>
+
+      <InlineFieldRow>
+        <InlineField label="Aggregate" labelWidth={LABEL_WIDTH}>
+          <Select
+            width={20}
+            options={AGGREGATIONS}
+            value={agg ?? ''}
+            onChange={(v: SelectableValue<BuilderAggregation | ''>) => update({ aggregation: v.value || undefined })}
+          />
+        </InlineField>
+        {needsField ? (
+          <InlineField label="of" invalid={!builder.aggregationField} error="Pick the field to aggregate">
+            {fieldPicker(builder.aggregationField, (aggregationField) => update({ aggregationField }))}
+          </InlineField>
+        ) : null}
+        {agg === 'perc' ? (
+          <InlineField label="Percentile">
+            <Input
+              width={8}
+              type="number"
+              min={1}
+              max={99}
+              defaultValue={builder.percentile ?? DEFAULT_PERCENTILE}
+              onBlur={(e) => update({ percentile: Math.round(Number(e.currentTarget.value)) || undefined })}
+            />
+          </InlineField>
+        ) : null}
+        {agg ? (
+          <InlineField label="Split by" tooltip="Timechart splits by the first field only." grow>
+            <MultiSelect
+              {...fieldOptions}
+              value={splitBy.map(option)}
+              onChange={(v) => update({ splitBy: v.map((o) => o.value!).filter(Boolean) })}
+              placeholder="fields"
+              allowCustomValue
+            />
+          </InlineField>
+        ) : null}
+      </InlineFieldRow>
+
+      <InlineFieldRow>
+        <InlineField label="Over time" labelWidth={LABEL_WIDTH} tooltip="Aggregate per time bucket with timechart.">
+          <InlineSwitch value={!!builder.timechart} onChange={(e) => update({ timechart: e.currentTarget.checked })} />
+        </InlineField>
+        {builder.timechart ? (
+          <InlineField
+            label="Span"
+            tooltip="Bucket size, e.g. 1m, or $__span to follow the panel interval. Empty lets Splunk pick one for the range."
+          >
+            <Input
+              width={12}
+              defaultValue={builder.span ?? ''}
+              placeholder="auto"
+              onBlur={(e) => update({ span: e.currentTarget.value.trim() || undefined })}
+            />
+          </InlineField>
+        ) : null}
+      </InlineFieldRow>
+    </>
+  );
+};
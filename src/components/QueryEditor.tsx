@@ -1,79 +1,196 @@
 import defaults from 'lodash/defaults';
 import debounce from 'lodash/debounce';
 import React, { PureComponent } from 'react';
-import { Button, InlineField, InlineFieldRow, Icon, Alert, HorizontalGroup, LinkButton, TextArea } from '@grafana/ui';
-import { QueryEditorProps } from '@grafana/data';
+import {
+  Button,
+  ConfirmModal,
+  InlineField,
+  InlineFieldRow,
+  HorizontalGroup,
+  InlineSwitch,
+  Input,
+  LinkButton,
+  RadioButtonGroup,
+  Select,
+} from '@grafana/ui';
+import { QueryEditorProps, SelectableValue } from '@grafana/data';
+import { builderSPL } from '../builder';
 import { DataSource } from '../datasource';
-import { defaultQuery, SplunkDataSourceOptions, SplunkQuery } from '../types';
+import { checkQuery, GuardrailViolation } from '../guardrails';
+import {
+  defaultQuery,
+  DEFAULT_TIME_FIELD,
+  EditorMode,
+  EXEC_MODES,
+  SavedSearchMode,
+  SeriesLayout,
+  SplunkApp,
+  SplunkBuilderQuery,
+  SplunkDataSourceOptions,
+  SplunkExecMode,
+  SplunkQuery,
+  SplunkQueryType,
+  SplunkSavedSearch,
+  SplunkSearchType,
+} from '../types';
+import { QueryBuilder } from './QueryBuilder';
+import { SplEditor } from './SplEditor';
 
 type Props = QueryEditorProps<DataSource, SplunkQuery, SplunkDataSourceOptions>;
 type State = {
   text: string;
-  validationMsg: string | null;
-  isDangerous: boolean;
+  violation: GuardrailViolation | null;
+  savedSearches: SplunkSavedSearch[] | null; // null until loaded
+  savedSearchesLoading: boolean;
+  savedSearchesError: string | null;
+  confirmBuilder: boolean; // asking before the builder replaces hand-written SPL
+  apps: SplunkApp[] | null; // null until loaded
+  appsLoading: boolean;
+  appsError: string | null;
 };
 
-const BANNED_COMMANDS = [
-  'outputlookup',
-  'sendemail',
-  'rest',
-  'delete',
-  'collect',
-  'sendalert',
-  'runshellscript',
-  'script',
-  'mcollect',
-  'loadjob',
-  'map\\s+\\[',
+const SEARCH_TYPES: Array<SelectableValue<SplunkSearchType>> = [
+  { label: 'SPL', value: 'spl', description: 'Write the search here' },
+  { label: 'Saved search', value: 'saved', description: 'Run a saved search or report' },
 ];
-const bannedRegex = new RegExp(`\\b(${BANNED_COMMANDS.join('|')})\\b`, 'i');
 
-const MIN_QUERY_LENGTH = 1;
+const SAVED_SEARCH_MODES: Array<SelectableValue<SavedSearchMode>> = [
+  { label: 'Dispatch', value: 'dispatch', description: 'Run it over the dashboard time range' },
+  { label: 'Last scheduled result', value: 'history', description: 'Load its most recent scheduled run' },
+];
+
+const EDITOR_MODES: Array<SelectableValue<EditorMode>> = [
+  { label: 'Builder', value: 'builder', description: 'Pick the data and the aggregation' },
+  { label: 'Code', value: 'code', description: 'Write SPL' },
+];
+
+// Queries saved before the builder existed have SPL and no mode; new queries start in the builder
+const editorModeOf = (query: SplunkQuery): EditorMode =>
+  query.editorMode ?? (query.queryText?.trim() ? 'code' : 'builder');
+
+const savedSearchKey = (s: { owner: string; app: string; name: string }) => `${s.owner}/${s.app}/${s.name}`;
+
+const QUERY_EXEC_MODES: Array<SelectableValue<SplunkExecMode | ''>> = [
+  { label: 'Default', value: '', description: 'Use the datasource setting' },
+  ...EXEC_MODES,
+];
+
+const QUERY_TYPES: Array<SelectableValue<SplunkQueryType>> = [
+  { label: 'Table', value: 'spl', description: 'One field per result column' },
+  { label: 'Time series', value: 'timeseries', description: 'timechart / chart over _time output' },
+  { label: 'Logs', value: 'logs', description: 'Raw events for Explore and the Logs panel' },
+];
+
+const SERIES_LAYOUTS: Array<SelectableValue<SeriesLayout>> = [
+  { label: 'Wide', value: 'wide', description: 'One frame with a field per series' },
+  { label: 'Long', value: 'long', description: 'One labeled frame per series' },
+];
 
 export class QueryEditor extends PureComponent<Props, State> {
   state: State = {
     text: '',
-    validationMsg: null,
-    isDangerous: false,
+    violation: null,
+    savedSearches: null,
+    savedSearchesLoading: false,
+    savedSearchesError: null,
+    confirmBuilder: false,
+    apps: null,
+    appsLoading: false,
+    appsError: null,
   };
 
   constructor(props: Props) {
     super(props);
     const initial = defaults(props.query, defaultQuery).queryText ?? '';
-    const { validationMsg, isDangerous } = this.validate(initial);
-    this.state = { text: initial, validationMsg, isDangerous };
+    this.state = { ...this.state, text: initial, violation: checkQuery(initial, props.datasource.guardrails) };
+  }
+
+  componentDidMount() {
+    if (this.props.query.searchType === 'saved') {
+      this.loadSavedSearches();
+    }
   }
 
+  private loadSavedSearches = async () => {
+    if (this.state.savedSearches || this.state.savedSearchesLoading) {
+      return;
+    }
+    this.setState({ savedSearchesLoading: true, savedSearchesError: null });
+    try {
+      const savedSearches = await this.props.datasource.getSavedSearches();
+      this.setState({ savedSearches, savedSearchesLoading: false });
+    } catch (err: any) {
+      this.setState({
+        savedSearchesLoading: false,
+        savedSearchesError: err?.message ?? 'Failed to load saved searches',
+      });
+    }
+  };
+
+  private loadApps = async () => {
+    if (this.state.apps || this.state.appsLoading) {
+      return;
+    }
+    this.setState({ appsLoading: true, appsError: null });
+    try {
+      const apps = await this.props.datasource.getApps();
+      this.setState({ apps, appsLoading: false });
+    } catch (err: any) {
+      this.setState({ appsLoading: false, appsError: err?.message ?? 'Failed to load apps' });
+    }
+  };
+
   private debouncedPropagate = debounce((value: string) => {
     const { onChange, query } = this.props;
     onChange({ ...query, queryText: value });
   }, 150);
 
-  private validate = (value: string): { validationMsg: string | null; isDangerous: boolean } => {
-    const v = value?.trim() ?? '';
-    if (v.length < MIN_QUERY_LENGTH) {
-      return { validationMsg: 'Query is empty.', isDangerous: false };
-    }
-    if (bannedRegex.test(v)) {
-      return {
-        validationMsg:
-          'This query includes a risky Splunk command (e.g., sendemail, outputlookup, rest, delete, collect, script, map[]). It will be blocked.',
-        isDangerous: true,
-      };
+  private setText = (value: string) => {
+    this.setState({ text: value, violation: checkQuery(value, this.props.datasource.guardrails) });
+    this.debouncedPropagate(value);
+  };
+
+  private setBuilder = (builder: SplunkBuilderQuery) => {
+    const { datasource, onChange, onRunQuery, query } = this.props;
+    const queryText = builderSPL(builder, datasource.guardrails.allowedIndexes);
+    const violation = checkQuery(queryText, datasource.guardrails);
+    // Aggregating over time makes a time series; turning it off goes back to a table
+    const timechartToggled = !!builder.timechart !== !!query.builder?.timechart;
+    const queryType = timechartToggled ? (builder.timechart ? 'timeseries' : 'spl') : query.queryType;
+
+    this.debouncedPropagate.cancel();
+    this.setState({ text: queryText, violation, confirmBuilder: false });
+    onChange({ ...query, editorMode: 'builder', builder, queryText, queryType });
+    if (!violation) {
+      onRunQuery();
     }
-    return { validationMsg: null, isDangerous: false };
   };
 
-  private setText = (value: string) => {
-    const { validationMsg, isDangerous } = this.validate(value);
-    this.setState({ text: value, validationMsg, isDangerous });
-    this.debouncedPropagate(value);
+  private setEditorMode = (mode: EditorMode) => {
+    const { datasource, query } = this.props;
+    if (mode === 'code') {
+      // The builder's SPL is already in queryText, ready to edit
+      this.props.onChange({ ...query, editorMode: 'code' });
+      return;
+    }
+    const generated = builderSPL(query.builder, datasource.guardrails.allowedIndexes);
+    if (this.state.text.trim() && this.state.text.trim() !== generated) {
+      this.setState({ confirmBuilder: true });
+      return;
+    }
+    this.setBuilder(query.builder ?? {});
   };
 
-  private runIfSafe = () => {
+  private runIfSafe = (query: SplunkQuery = this.props.query) => {
     const { onRunQuery } = this.props;
-    const { isDangerous, validationMsg } = this.state;
-    if (isDangerous || validationMsg) {
+    if (query.searchType === 'saved') {
+      // The stored SPL is checked by the datasource at query time
+      if (query.savedSearch?.name) {
+        onRunQuery();
+      }
+      return;
+    }
+    if (this.state.violation) {
       return;
     }
     onRunQuery();
@@ -83,6 +200,30 @@ export class QueryEditor extends PureComponent<Props, State> {
     this.runIfSafe();
   };
 
+  private setTimeField = (value: string) => {
+    const { onChange, query } = this.props;
+    onChange({ ...query, timeField: value || undefined });
+  };
+
+  private patchAndRun = (patch: Partial<SplunkQuery>) => {
+    const { onChange, query } = this.props;
+    const next = { ...query, ...patch };
+    onChange(next);
+    this.runIfSafe(next);
+  };
+
+  private setSearchType = (searchType: SplunkSearchType) => {
+    if (searchType === 'saved') {
+      this.loadSavedSearches();
+    }
+    this.patchAndRun({ searchType });
+  };
+
+  private setSavedSearch = (key: string | undefined) => {
+    const saved = this.state.savedSearches?.find((s) => savedSearchKey(s) === key);
+    this.patchAndRun({ savedSearch: saved ? { name: saved.name, owner: saved.owner, app: saved.app } : undefined });
+  };
+
   private clear = () => {
     this.setText('');
     this.debouncedPropagate.flush?.();
@@ -90,26 +231,214 @@ export class QueryEditor extends PureComponent<Props, State> {
   };
 
   render() {
-    const { text, validationMsg, isDangerous } = this.state;
+    const { text, violation, savedSearches, savedSearchesLoading, savedSearchesError, confirmBuilder } = this.state;
+    const { apps, appsLoading, appsError } = this.state;
+    const { datasource, query, range } = this.props;
+    const { defaultApp, defaultOwner } = datasource.jsonData;
+    const isSaved = query.searchType === 'saved';
+    const editorMode = editorModeOf(query);
+    const splunkLink = range ? datasource.searchLink({ ...query, queryText: text }, range) : undefined;
+
+    const savedOptions: Array<SelectableValue<string>> = (savedSearches ?? []).map((s) => ({
+      label: s.name,
+      value: savedSearchKey(s),
+      description: [s.app, s.owner, s.isScheduled ? 'scheduled' : ''].filter(Boolean).join(' · '),
+    }));
+    const appOptions: Array<SelectableValue<string>> = (apps ?? []).map((a) => ({
+      label: a.label,
+      value: a.name,
+      description: a.visible ? a.name : `${a.name} · hidden`,
+    }));
+
+    // Keep the current pick visible before the list has loaded
+    if (query.savedSearch && !savedOptions.some((o) => o.value === savedSearchKey(query.savedSearch!))) {
+      savedOptions.unshift({ label: query.savedSearch.name, value: savedSearchKey(query.savedSearch) });
+    }
 
     return (
       <div className="gf-form" style={{ width: '100%' }}>
         <InlineFieldRow>
-          <InlineField label="SPL" grow>
-            <TextArea
-              name="queryText"
-              value={text}
-              rows={6}
-              placeholder="e.g. index=main sourcetype=syslog host=$host | stats count by host"
-              onChange={(e) => this.setText(e.currentTarget.value)}
+          <InlineField label="Query type" labelWidth={14}>
+            <RadioButtonGroup options={SEARCH_TYPES} value={query.searchType ?? 'spl'} onChange={this.setSearchType} />
+          </InlineField>
+          {isSaved ? null : (
+            <InlineField label="Editor">
+              <RadioButtonGroup options={EDITOR_MODES} value={editorMode} onChange={this.setEditorMode} />
+            </InlineField>
+          )}
+        </InlineFieldRow>
+
+        {isSaved ? (
+          <InlineFieldRow>
+            <InlineField
+              label="Saved search"
+              labelWidth={14}
+              invalid={!!savedSearchesError}
+              error={savedSearchesError}
+              grow
+            >
+              <Select
+                options={savedOptions}
+                value={query.savedSearch ? savedSearchKey(query.savedSearch) : null}
+                isLoading={savedSearchesLoading}
+                onOpenMenu={this.loadSavedSearches}
+                onChange={(v) => this.setSavedSearch(v?.value)}
+                placeholder="Choose a saved search or report"
+                isClearable
+              />
+            </InlineField>
+            <InlineField label="Run as">
+              <RadioButtonGroup
+                options={SAVED_SEARCH_MODES}
+                value={query.savedSearchMode ?? 'dispatch'}
+                onChange={(v) => this.patchAndRun({ savedSearchMode: v })}
+              />
+            </InlineField>
+          </InlineFieldRow>
+        ) : editorMode === 'builder' ? (
+          <>
+            <QueryBuilder
+              datasource={datasource}
+              builder={query.builder ?? {}}
+              range={range}
+              onChange={this.setBuilder}
+            />
+            <InlineFieldRow>
+              <InlineField
+                label="SPL"
+                labelWidth={14}
+                tooltip="Generated by the builder; switch to Code to edit it."
+                grow
+              >
+                <SplEditor datasource={datasource} value={text} violation={violation} height={60} readOnly />
+              </InlineField>
+            </InlineFieldRow>
+          </>
+        ) : (
+          <InlineFieldRow>
+            <InlineField label="SPL" grow>
+              <SplEditor
+                datasource={datasource}
+                value={text}
+                violation={violation}
+                range={range}
+                height={150}
+                onChange={this.setText}
+                onBlur={this.handleBlur}
+              />
+            </InlineField>
+          </InlineFieldRow>
+        )}
+
+        <ConfirmModal
+          isOpen={confirmBuilder}
+          title="Switch to the builder"
+          body="The builder can't read hand-written SPL; its own query will replace the current one."
+          confirmText="Switch"
+          onConfirm={() => this.setBuilder(query.builder ?? {})}
+          onDismiss={() => this.setState({ confirmBuilder: false })}
+        />
+
+        <InlineFieldRow>
+          <InlineField label="Time field" tooltip="Result column used as the frame's time field." labelWidth={14}>
+            <Input
+              width={24}
+              value={query.timeField ?? ''}
+              placeholder={DEFAULT_TIME_FIELD}
+              onChange={(e) => this.setTimeField(e.currentTarget.value)}
               onBlur={this.handleBlur}
             />
           </InlineField>
+          <InlineField label="Format">
+            <RadioButtonGroup
+              options={QUERY_TYPES}
+              value={query.queryType ?? 'spl'}
+              onChange={(v) => this.patchAndRun({ queryType: v })}
+            />
+          </InlineField>
+          {isSaved ? null : (
+            <InlineField label="Execution" tooltip="How the search runs on Splunk. Oneshot suits small stat tiles.">
+              <Select
+                width={16}
+                options={QUERY_EXEC_MODES}
+                value={query.execMode ?? ''}
+                onChange={(v: SelectableValue<SplunkExecMode | ''>) =>
+                  this.patchAndRun({ execMode: v.value || undefined })
+                }
+              />
+            </InlineField>
+          )}
         </InlineFieldRow>
 
+        {isSaved ? null : (
+          <InlineFieldRow>
+            <InlineField
+              label="App"
+              labelWidth={14}
+              tooltip="App context the search runs in, which resolves its macros, lookups, eventtypes and field extractions. Empty uses the datasource default."
+              invalid={!!appsError}
+              error={appsError}
+            >
+              <Select
+                width={24}
+                options={appOptions}
+                value={query.app ? { label: query.app, value: query.app } : null}
+                isLoading={appsLoading}
+                onOpenMenu={this.loadApps}
+                onChange={(v) => this.patchAndRun({ app: v?.value || undefined })}
+                placeholder={defaultApp || 'default'}
+                allowCustomValue
+                isClearable
+              />
+            </InlineField>
+            <InlineField
+              label="Owner"
+              tooltip="User whose private knowledge objects the search can use. Empty uses the datasource default."
+            >
+              <Input
+                width={16}
+                defaultValue={query.owner ?? ''}
+                placeholder={defaultOwner || 'nobody'}
+                onBlur={(e) => this.patchAndRun({ owner: e.currentTarget.value.trim() || undefined })}
+              />
+            </InlineField>
+          </InlineFieldRow>
+        )}
+
+        {query.queryType === 'timeseries' ? (
+          <InlineFieldRow>
+            <InlineField label="Layout" labelWidth={14}>
+              <RadioButtonGroup
+                options={SERIES_LAYOUTS}
+                value={query.seriesLayout ?? 'wide'}
+                onChange={(v) => this.patchAndRun({ seriesLayout: v })}
+              />
+            </InlineField>
+            <InlineField label="Drop NULL series" tooltip="Hide the series of events without the split-by field.">
+              <InlineSwitch
+                value={!!query.dropNullSeries}
+                onChange={(e) => this.patchAndRun({ dropNullSeries: e.currentTarget.checked })}
+              />
+            </InlineField>
+            <InlineField
+              label="Drop OTHER series"
+              tooltip="Hide the series timechart folds everything past its limit into."
+            >
+              <InlineSwitch
+                value={!!query.dropOtherSeries}
+                onChange={(e) => this.patchAndRun({ dropOtherSeries: e.currentTarget.checked })}
+              />
+            </InlineField>
+          </InlineFieldRow>
+        ) : null}
+
         <div style={{ marginTop: 8 }}>
           <HorizontalGroup spacing="sm">
-            <Button icon="play" onClick={this.runIfSafe} disabled={!!validationMsg || isDangerous}>
+            <Button
+              icon="play"
+              onClick={() => this.runIfSafe()}
+              disabled={isSaved ? !query.savedSearch?.name : !!violation}
+            >
               Run
             </Button>
             <Button variant="secondary" icon="trash-alt" onClick={this.clear}>
@@ -123,13 +452,10 @@ export class QueryEditor extends PureComponent<Props, State> {
             >
               SPL Docs
             </LinkButton>
-            {validationMsg ? (
-              <Alert title="Validation" severity={isDangerous ? 'error' : 'warning'} style={{ marginLeft: 8 }}>
-                <HorizontalGroup spacing="xs">
-                  <Icon name={isDangerous ? 'exclamation-triangle' : 'exclamation-circle'} />
-                  <span>{validationMsg}</span>
-                </HorizontalGroup>
-              </Alert>
+            {splunkLink ? (
+              <LinkButton icon="external-link-alt" href={splunkLink} target="_blank" variant="secondary">
+                Open in Splunk
+              </LinkButton>
             ) : null}
           </HorizontalGroup>
         </div>
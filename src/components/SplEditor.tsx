@@ -0,0 +1,141 @@
+import React, { useEffect, useRef } from 'react';
+import { TimeRange } from '@grafana/data';
+import { getTemplateSrv } from '@grafana/runtime';
+import { CodeEditor, Monaco, MonacoEditor, monacoTypes } from '@grafana/ui';
+import { DataSource } from '../datasource';
+import { GuardrailViolation, indexTerms } from '../guardrails';
+import { registerSplCompletion, registerSplLanguage, SPL_LANGUAGE_ID } from '../language';
+import { parseSPL } from '../spl';
+
+type Props = {
+  datasource: DataSource;
+  value: string;
+  /** Shown as a marker on the offending stage (or the whole query) */
+  violation: GuardrailViolation | null;
+  onChange?: (value: string) => void;
+  onBlur?: (value: string) => void;
+  readOnly?: boolean;
+  /** Time range the field names for autocompletion are sampled from */
+  range?: TimeRange;
+  height?: number;
+};
+
+const MARKER_OWNER = 'splunk-guardrails';
+
+// Field names are fetched once the scope stops changing, so a half-typed index name starts no search
+const FIELD_FETCH_DELAY_MS = 800;
+
+/** Indexes named by the first stage, which scope the field names offered; '' means the default indexes. */
+function fieldScope(spl: string): string {
+  const first = parseSPL(spl).find((s) => !s.parent);
+  return first ? indexTerms(first.args).join(',') : '';
+}
+
+function setMarkers(monaco: Monaco, editor: MonacoEditor, violation: GuardrailViolation | null) {
+  const model = editor.getModel();
+  if (!model) {
+    return;
+  }
+  const start = violation?.stage?.start ?? 0;
+  const end = violation?.stage?.end ?? model.getValueLength();
+  const markers: monacoTypes.editor.IMarkerData[] = [];
+  if (violation && end > start) {
+    const from = model.getPositionAt(start);
+    const to = model.getPositionAt(end);
+    markers.push({
+      message: violation.message,
+      severity: violation.dangerous ? monaco.MarkerSeverity.Error : monaco.MarkerSeverity.Warning,
+      startLineNumber: from.lineNumber,
+      startColumn: from.column,
+      endLineNumber: to.lineNumber,
+      endColumn: to.column,
+    });
+  }
+  monaco.editor.setModelMarkers(model, MARKER_OWNER, markers);
+}
+
+/**
+ * SPL code editor: highlighting, completion of commands, eval functions,
+ * dashboard variables and field names, and guardrail violations as markers.
+ */
+export const SplEditor = ({ datasource, value, violation, onChange, onBlur, range, readOnly, height = 120 }: Props) => {
+  const mounted = useRef<{ monaco: Monaco; editor: MonacoEditor }>();
+  const completion = useRef<monacoTypes.IDisposable>();
+  // Field names per scope, fetched once per editor; the last finished ones stand in while a scope settles
+  const fields = useRef(new Map<string, Promise<string[]>>());
+  const lastFields = useRef<string[]>([]);
+  const pendingFetch = useRef<{ timer: ReturnType<typeof setTimeout>; resolve: (names: string[]) => void }>();
+  // CodeEditor binds its change handler once, on mount
+  const latest = useRef({ onChange, range, violation });
+  latest.current = { onChange, range, violation };
+
+  useEffect(
+    () => () => {
+      completion.current?.dispose();
+      clearTimeout(pendingFetch.current?.timer);
+    },
+    []
+  );
+
+  useEffect(() => {
+    if (mounted.current) {
+      setMarkers(mounted.current.monaco, mounted.current.editor, violation);
+    }
+  }, [violation]);
+
+  const fieldNames = (spl: string): Promise<string[]> => {
+    const scope = fieldScope(spl);
+    const cached = fields.current.get(scope);
+    if (cached) {
+      return cached;
+    }
+    // A newer scope supersedes one still waiting
+    if (pendingFetch.current) {
+      clearTimeout(pendingFetch.current.timer);
+      pendingFetch.current.resolve(lastFields.current);
+    }
+    return new Promise((resolve) => {
+      const timer = setTimeout(() => {
+        pendingFetch.current = undefined;
+        const names = datasource.getFieldNames(scope || undefined, latest.current.range);
+        fields.current.set(scope, names);
+        names.then((n) => (lastFields.current = n)).catch(() => {});
+        resolve(names);
+      }, FIELD_FETCH_DELAY_MS);
+      pendingFetch.current = { timer, resolve };
+    });
+  };
+
+  const onEditorDidMount = (editor: MonacoEditor, monaco: Monaco) => {
+    mounted.current = { monaco, editor };
+    const model = editor.getModel();
+    if (model) {
+      completion.current = registerSplCompletion(monaco, model, {
+        variables: () =>
+          getTemplateSrv()
+            .getVariables()
+            .map((v) => v.name),
+        fieldNames,
+      });
+    }
+    setMarkers(monaco, editor, latest.current.violation);
+  };
+
+  return (
+    <div style={{ width: '100%' }}>
+      <CodeEditor
+        language={SPL_LANGUAGE_ID}
+        value={value}
+        height={height}
+        showLineNumbers={false}
+        showMiniMap={false}
+        wordWrap
+        readOnly={readOnly}
+        onBeforeEditorMount={registerSplLanguage}
+        onEditorDidMount={onEditorDidMount}
+        onChange={(v) => latest.current.onChange?.(v)}
+        onBlur={onBlur}
+      />
+    </div>
+  );
+};
@@ -1,52 +1,50 @@
 import React, { useState, useMemo } from 'react';
 import debounce from 'lodash/debounce';
-import { TextArea, Button, InlineField, InlineFieldRow, Alert, HorizontalGroup, LinkButton, Icon } from '@grafana/ui';
-import { SplunkQuery } from '../types';
+import { SelectableValue } from '@grafana/data';
+import {
+  Button,
+  InlineField,
+  InlineFieldRow,
+  Input,
+  Alert,
+  HorizontalGroup,
+  LinkButton,
+  RadioButtonGroup,
+  Select,
+} from '@grafana/ui';
+import { DataSource } from '../datasource';
+import { checkQuery } from '../guardrails';
+import { SplunkQuery, VariableMode, VariableSort } from '../types';
+import { variableSearch } from '../variables';
+import { SplEditor } from './SplEditor';
 
 type VariableQueryProps = {
+  datasource: DataSource;
   query: SplunkQuery;
   onChange: (query: SplunkQuery, definition: string) => void;
   onRunQuery?: () => void;
 };
 
-const BANNED_COMMANDS = [
-  'outputlookup',
-  'sendemail',
-  'rest',
-  'delete',
-  'collect',
-  'sendalert',
-  'runshellscript',
-  'script',
-  'mcollect',
-  'loadjob',
-  'map\\s+\\[',
+const MODES: Array<SelectableValue<VariableMode>> = [
+  { label: 'SPL', value: 'spl', description: 'First column (or __text/__value) of any search' },
+  { label: 'Indexes', value: 'indexes', description: 'Indexes with events in the time range' },
+  { label: 'Sourcetypes', value: 'sourcetypes' },
+  { label: 'Hosts', value: 'hosts' },
+  { label: 'Sources', value: 'sources' },
+  { label: 'Field values', value: 'fieldValues', description: 'Distinct values of a field' },
 ];
-const bannedRegex = new RegExp(`\\b(${BANNED_COMMANDS.join('|')})\\b`, 'i');
-const MIN_QUERY_LENGTH = 1;
 
-export const VariableQueryEditor = ({ onChange, query, onRunQuery }: VariableQueryProps) => {
+type FormKey = 'variableIndex' | 'variableField' | 'variableFilter';
+
+const SORTS: Array<SelectableValue<VariableSort>> = [
+  { label: 'Splunk order', value: 'none' },
+  { label: 'A → Z', value: 'asc' },
+  { label: 'Z → A', value: 'desc' },
+];
+
+export const VariableQueryEditor = ({ datasource, onChange, query, onRunQuery }: VariableQueryProps) => {
   const [text, setText] = useState<string>(query.queryText ?? '');
-  const [validationMsg, setValidationMsg] = useState<string | null>(null);
-  const [isDangerous, setIsDangerous] = useState<boolean>(false);
-
-  const validate = (value: string) => {
-    const v = value?.trim() ?? '';
-    if (v.length < MIN_QUERY_LENGTH) {
-      setValidationMsg('Query is empty.');
-      setIsDangerous(false);
-      return;
-    }
-    if (bannedRegex.test(v)) {
-      setValidationMsg(
-        'This query includes a risky Splunk command (e.g., sendemail, outputlookup, rest, delete, collect, script, map[]). It will be blocked.'
-      );
-      setIsDangerous(true);
-      return;
-    }
-    setValidationMsg(null);
-    setIsDangerous(false);
-  };
+  const violation = checkQuery(text, datasource.guardrails);
 
   // Debounce saving changes back to Grafana model
   const debouncedSave = useMemo(
@@ -57,22 +55,40 @@ export const VariableQueryEditor = ({ onChange, query, onRunQuery }: VariableQue
     [onChange, query]
   );
 
-  const handleChange = (event: React.FormEvent<HTMLTextAreaElement>) => {
-    const value = event.currentTarget.value;
+  const handleChange = (value: string) => {
     setText(value);
-    validate(value);
     debouncedSave(value);
   };
 
+  // Typed modes generate their search; it is shown as the variable's definition and checked like typed SPL
+  const mode = query.variableMode ?? 'spl';
+  const generated = mode === 'spl' ? null : variableSearch(query, datasource.guardrails.allowedIndexes);
+  const generatedViolation = generated ? checkQuery(generated, datasource.guardrails) : null;
+  const blocked = generated === null ? !!violation : !generated || !!generatedViolation;
+
+  const update = (patch: Partial<SplunkQuery>) => {
+    debouncedSave.cancel();
+    const next = { ...query, queryText: text, ...patch };
+    onChange(next, variableSearch(next, datasource.guardrails.allowedIndexes));
+  };
+
+  const formInput = (key: FormKey, placeholder: string, width = 30) => (
+    <Input
+      width={width}
+      defaultValue={query[key] ?? ''}
+      placeholder={placeholder}
+      onBlur={(e) => update({ [key]: e.currentTarget.value.trim() || undefined })}
+    />
+  );
+
   const runIfSafe = () => {
-    if (!validationMsg && !isDangerous) {
+    if (!blocked) {
       onRunQuery?.();
     }
   };
 
   const clear = () => {
     setText('');
-    validate('');
     debouncedSave.flush?.();
     onChange({ ...query, queryText: '' }, '');
     onRunQuery?.();
@@ -81,14 +97,65 @@ export const VariableQueryEditor = ({ onChange, query, onRunQuery }: VariableQue
   return (
     <div className="gf-form" style={{ width: '100%' }}>
       <InlineFieldRow>
-        <InlineField label="SPL (variable)" grow>
-          <TextArea name="queryText" onChange={handleChange} value={text} rows={5} />
+        <InlineField label="Query" tooltip="Free SPL, or a built-in variable type with its own form.">
+          <Select width={24} options={MODES} value={mode} onChange={(v) => update({ variableMode: v.value })} />
+        </InlineField>
+      </InlineFieldRow>
+
+      {mode === 'spl' ? (
+        <InlineFieldRow>
+          <InlineField label="SPL (variable)" grow>
+            <SplEditor datasource={datasource} value={text} violation={violation} onChange={handleChange} />
+          </InlineField>
+        </InlineFieldRow>
+      ) : (
+        <InlineFieldRow>
+          <InlineField
+            label="Index"
+            tooltip="Comma-separated indexes; * and $variables allowed. Empty uses the datasource's allowed indexes, else all."
+          >
+            {formInput('variableIndex', datasource.guardrails.allowedIndexes.join(', ') || '*')}
+          </InlineField>
+          {mode === 'fieldValues' ? (
+            <>
+              <InlineField label="Field" tooltip="Field whose distinct values become the options, most frequent first.">
+                {formInput('variableField', 'e.g. interface', 20)}
+              </InlineField>
+              <InlineField label="Filter" tooltip="Extra search terms, e.g. sourcetype=syslog host=$device" grow>
+                {formInput('variableFilter', 'optional')}
+              </InlineField>
+            </>
+          ) : null}
+        </InlineFieldRow>
+      )}
+
+      <InlineFieldRow>
+        <InlineField
+          label="Time range"
+          tooltip="Fixed window ending now, e.g. now-24h or -7d. Empty searches the dashboard time range."
+        >
+          <Input
+            width={20}
+            defaultValue={query.variableWindow ?? ''}
+            placeholder="dashboard range"
+            onBlur={(e) => update({ variableWindow: e.currentTarget.value.trim() || undefined })}
+          />
+        </InlineField>
+        <InlineField
+          label="Sort"
+          tooltip="Options are deduped by value. A → Z sorts numbers by value (sw2 before sw10)."
+        >
+          <RadioButtonGroup
+            options={SORTS}
+            value={query.variableSort ?? 'none'}
+            onChange={(v) => update({ variableSort: v })}
+          />
         </InlineField>
       </InlineFieldRow>
 
       <div style={{ marginTop: 8 }}>
         <HorizontalGroup spacing="sm">
-          <Button icon="play" onClick={runIfSafe} disabled={!!validationMsg || isDangerous}>
+          <Button icon="play" onClick={runIfSafe} disabled={blocked}>
             Run
           </Button>
           <Button variant="secondary" icon="trash-alt" onClick={clear}>
@@ -102,14 +169,7 @@ export const VariableQueryEditor = ({ onChange, query, onRunQuery }: VariableQue
           >
             SPL Docs
           </LinkButton>
-          {validationMsg ? (
-            <Alert title="Validation" severity={isDangerous ? 'error' : 'warning'} style={{ marginLeft: 8 }}>
-              <HorizontalGroup spacing="xs">
-                <Icon name={isDangerous ? 'exclamation-triangle' : 'exclamation-circle'} />
-                <span>{validationMsg}</span>
-              </HorizontalGroup>
-            </Alert>
-          ) : null}
+          {generatedViolation ? <Alert title={generatedViolation.message} severity="error" /> : null}
         </HorizontalGroup>
       </div>
     </div>
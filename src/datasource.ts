@@ -1,33 +1,54 @@
-import { getBackendSrv, getTemplateSrv } from '@grafana/runtime';
+import { BackendSrvRequest, getBackendSrv } from '@grafana/runtime';
 import {
+  AdHocVariableFilter,
+  createDataFrame,
   DataFrame,
+  DataQueryError,
   DataQueryRequest,
   DataQueryResponse,
   DataSourceApi,
+  DataSourceGetTagKeysOptions,
+  DataSourceGetTagValuesOptions,
   DataSourceInstanceSettings,
-  FieldType,
+  LegacyMetricFindQueryOptions,
+  LoadingState,
   MetricFindValue,
-  MutableDataFrame,
+  QueryResultMetaNotice,
+  QueryResultMetaStat,
+  rangeUtil,
+  ScopedVars,
+  TimeRange,
 } from '@grafana/data';
-import type { SplunkDataSourceOptions, SplunkQuery } from './types';
-
-// ---------- Guardrails ----------
-function compileBannedRegex(opts: SplunkDataSourceOptions): RegExp | null {
-  const src = (opts.bannedCommands ?? '').trim();
-  if (!src) return null;
-  const parts = src.split('\n').map((s) => s.trim()).filter(Boolean);
-  if (!parts.length) return null;
-  return new RegExp(`\\b(${parts.join('|')})\\b`, 'i');
-}
-
-function isQueryDangerous(q: string | undefined, opts: SplunkDataSourceOptions): string | null {
-  const text = (q ?? '').trim();
-  if (!text.length) return 'Query is empty.';
-  if (opts.allowDangerousCommands) return null;
-  const re = compileBannedRegex(opts);
-  if (re && re.test(text)) return 'Query includes a risky Splunk command and is blocked by guardrails.';
-  return null;
-}
+import { Observable, of } from 'rxjs';
+import { applyAdHocFilters, tagKeysSearch, tagValuesQuery } from './adhoc';
+import { FiredAlert, firedAlertRows, FIRED_ALERT_MAPPING, framesToAnnotations } from './annotations';
+import { abortError, ProgressReporter, SearchCache } from './cache';
+import { AnnotationEditor } from './components/AnnotationEditor';
+import { checkQuery, checkTimeRange, GuardrailPolicy, resolvePolicy } from './guardrails';
+import { interpolateSPL, TimeMacros } from './interpolate';
+import { ConcurrencyLimiter } from './limiter';
+import { savedSearchSPL, splunkSearchUrl, withDataLinks } from './links';
+import { toMetricFindValues, variableSearch } from './variables';
+import {
+  NOISE_FIELDS,
+  parseSplunkTime,
+  resultsToDataFrame,
+  resultsToLogsFrame,
+  resultsToTimeSeriesFrames,
+  SplunkResultField,
+  SplunkResultRow,
+  timechartSplitField,
+} from './frames';
+import type {
+  SavedSearchMode,
+  SplunkDataSourceOptions,
+  SplunkApp,
+  SplunkExecMode,
+  SplunkNamespace,
+  SplunkQuery,
+  SplunkSavedSearch,
+  SplunkSavedSearchRef,
+} from './types';
 
 // ---------- Helpers ----------
 function toSplunkTimeISO(d: Date): string {
@@ -35,214 +56,928 @@ function toSplunkTimeISO(d: Date): string {
   return s.replace(/\.\d{3}Z$/, 'Z');
 }
 
-function sleep(ms: number) {
-  return new Promise((res) => setTimeout(res, ms));
+function sleep(ms: number, signal?: AbortSignal) {
+  return new Promise<void>((res, rej) => {
+    if (signal?.aborted) {
+      return rej(abortError());
+    }
+    const onAbort = () => {
+      clearTimeout(timer);
+      rej(abortError());
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      res();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
 }
 
-function escapeSplunkValue(v: string): string {
-  // Escape quotes and backslashes for safe embedding
-  return String(v).replace(/(["\\])/g, '\\$1');
+function throwIfAborted(signal?: AbortSignal) {
+  if (signal?.aborted) {
+    throw abortError();
+  }
 }
 
 /**
- * Interpolates Grafana variables into SPL.
- * - Single value: just escapes (no extra quotes are added).
- *   So if user wrote host="$device*", result becomes host="sr-zw-1a02-1*"
- * - Multi value: ("v1" OR "v2")
+ * `signal`, also aborted once `ms` pass (0 = never). `expired` tells the
+ * deadline apart from the caller aborting; `clear` must be called when done.
  */
-function interpolateSPL(text: string, scopedVars: any): string {
-  const ts = getTemplateSrv();
-  const formatter = (value: any) => {
-    if (value == null) {
-      return '';
-    }
-    if (Array.isArray(value)) {
-      const parts = value.map((v) => `"${escapeSplunkValue(String(v))}"`);
-      return parts.length > 1 ? `(${parts.join(' OR ')})` : (parts[0] ?? '');
-    }
-    return escapeSplunkValue(String(value));
+function withDeadline(signal: AbortSignal | undefined, ms: number) {
+  const controller = new AbortController();
+  let expired = false;
+  const onAbort = () => controller.abort();
+  if (signal?.aborted) {
+    controller.abort();
+  }
+  signal?.addEventListener('abort', onAbort, { once: true });
+  const timer =
+    ms > 0
+      ? setTimeout(() => {
+          expired = true;
+          controller.abort();
+        }, ms)
+      : undefined;
+  return {
+    signal: controller.signal,
+    expired: () => expired,
+    clear: () => {
+      clearTimeout(timer);
+      signal?.removeEventListener('abort', onAbort);
+    },
   };
-  return ts.replace(text, scopedVars, formatter);
 }
 
+// Retries of a busy Splunk (429, 503, search quota reached), after 1s, 2s, 4s (plus jitter)
+const MAX_RETRIES = 3;
+const RETRY_BASE_MS = 1000;
+
+// Job polling starts at pollIntervalMs and slows down by this factor, up to the cap
+const POLL_BACKOFF = 1.5;
+const MAX_POLL_INTERVAL_MS = 5000;
+
+// Points per panel for $__span when the request gives no interval (and for variable queries)
+const DEFAULT_DATA_POINTS = 1000;
+
 // Splunk payloads (data payloads only)
 type SplunkJobCreateData = { sid: string };
-type SplunkJobStatusData = { entry?: Array<{ content?: { isDone?: boolean; dispatchState?: string } }> };
-type SplunkResultsData = { results?: Array<Record<string, any>>; fields?: Array<{ name: string }> };
+type SplunkJobStatus = {
+  isDone?: boolean;
+  dispatchState?: string;
+  doneProgress?: number; // 0..1
+  eventCount?: number;
+  scanCount?: number;
+  resultCount?: number;
+  resultPreviewCount?: number;
+  runDuration?: number; // seconds
+  isFailed?: boolean | string;
+  messages?: SplunkMessages;
+};
+type SplunkJobStatusData = { entry?: Array<{ content?: SplunkJobStatus }> };
+type SplunkResultsData = { results?: SplunkResultRow[]; fields?: SplunkResultField[]; messages?: SplunkMessages };
+type SplunkExportChunk = {
+  preview?: boolean;
+  offset?: number;
+  lastrow?: boolean;
+  result?: SplunkResultRow;
+  messages?: SplunkMessages;
+};
+
+// Messages Splunk attaches to a job or its results: FATAL, ERROR, WARN, INFO (DEBUG is dropped)
+type SplunkMessage = { type: string; text: string };
+// Results, export and error bodies list them; job status groups them by type, e.g. { fatal: ["..."] }
+type SplunkMessages = Array<Partial<SplunkMessage>> | Record<string, string | string[]>;
+
+type SplunkSavedSearchesData = {
+  entry?: Array<{
+    name: string;
+    acl?: { owner?: string; app?: string };
+    content?: { search?: string; is_scheduled?: boolean | string; disabled?: boolean | string };
+  }>;
+};
+type SplunkSavedSearchHistoryData = {
+  entry?: Array<{ name: string; published?: string; content?: { isScheduled?: boolean; isDone?: boolean } }>;
+};
+type SplunkAppsData = {
+  entry?: Array<{
+    name: string;
+    content?: { label?: string; visible?: boolean | string; disabled?: boolean | string };
+  }>;
+};
+type SplunkFiredAlertsData = {
+  entry?: Array<{
+    name: string;
+    acl?: { owner?: string; app?: string };
+    content?: { savedsearch_name?: string; trigger_time?: number | string; severity?: number | string; sid?: string };
+  }>;
+};
+
+// Splunk sends booleans as true/false, "1"/"0" or "true"/"false" depending on the endpoint
+function isTrue(v: unknown): boolean {
+  return v === true || v === 1 || v === '1' || v === 'true';
+}
+
+function splunkMessages(raw: SplunkMessages | undefined): SplunkMessage[] {
+  const all = Array.isArray(raw)
+    ? raw.map((m) => ({ type: String(m?.type ?? ''), text: String(m?.text ?? '') }))
+    : Object.entries(raw ?? {}).flatMap(([type, texts]) =>
+        (Array.isArray(texts) ? texts : [texts]).map((text) => ({ type, text: String(text) }))
+      );
+  return all
+    .map((m) => ({ type: m.type.toUpperCase(), text: m.text.trim() }))
+    .filter((m) => m.text && m.type !== 'DEBUG');
+}
+
+/** `a` followed by the messages of `b` it doesn't already have; pages and polls repeat them. */
+function mergeMessages(a: SplunkMessage[], b: SplunkMessage[] | undefined): SplunkMessage[] {
+  const seen = new Set(a.map((m) => `${m.type}\u0000${m.text}`));
+  return [...a, ...(b ?? []).filter((m) => !seen.has(`${m.type}\u0000${m.text}`))];
+}
+
+const isErrorMessage = (m: SplunkMessage) => m.type === 'FATAL' || m.type === 'ERROR';
+
+/** Splunk's FATAL / ERROR messages as one error text, or `fallback` when it gave none. */
+function failureText(messages: SplunkMessage[], fallback: string): string {
+  const errors = messages.filter(isErrorMessage).map((m) => m.text);
+  return errors.length ? errors.join('; ') : fallback;
+}
+
+/**
+ * Error text for a failed request: Splunk's own messages from the response body
+ * (e.g. "Unknown search command 'statz'." on a 400), else the HTTP error.
+ */
+function requestErrorText(err: any, fallback: string): string {
+  const messages = splunkMessages(err?.data?.messages);
+  return failureText(messages, err?.data?.message || err?.message || err?.statusText || fallback);
+}
+
+/** Splunk is busy rather than the request wrong: worth trying again shortly. */
+function isBusy(err: any): boolean {
+  const status = Number(err?.status);
+  return status === 429 || status === 503 || /maximum number of concurrent/i.test(requestErrorText(err, ''));
+}
+
+/** Fails fast on a job Splunk gave up on, e.g. after a parse error, instead of polling it to the limit. */
+function throwIfJobFailed(status: SplunkJobStatus) {
+  if (status.dispatchState === 'FAILED' || isTrue(status.isFailed)) {
+    throw new Error(failureText(splunkMessages(status.messages), 'Splunk search job failed'));
+  }
+}
+
+/**
+ * Parses /search/jobs/export output: one JSON object per line, each carrying a
+ * `result`. Transforming searches also stream interim `preview: true` rows,
+ * which are superseded by the final ones and skipped.
+ */
+function parseExportResults(body: unknown, maxRows: number): SearchResult {
+  const lines = typeof body === 'string' ? body.split('\n') : [];
+  const rows: SplunkResultRow[] = [];
+  let messages: SplunkMessage[] = [];
+  for (const line of lines) {
+    if (!line.trim()) {
+      continue;
+    }
+    const chunk: SplunkExportChunk = JSON.parse(line);
+    messages = mergeMessages(messages, splunkMessages(chunk.messages));
+    if (chunk.result && !chunk.preview) {
+      rows.push(chunk.result);
+      if (maxRows > 0 && rows.length >= maxRows) {
+        return { rows, messages, truncated: true };
+      }
+    }
+  }
+  return { rows, messages };
+}
+
+// A finished search, shared by every query with the same SPL and window
+type SearchResult = {
+  rows: SplunkResultRow[];
+  fields?: SplunkResultField[];
+  messages?: SplunkMessage[];
+  truncated?: boolean; // stopped at maxRows; there may be more
+  // The job's final status; oneshot and export searches have no job
+  sid?: string;
+  status?: SplunkJobStatus;
+};
+// What one query target adds to the response: its frames, or why it has none
+type TargetResult = { frames: DataFrame[]; error?: DataQueryError };
+// Reported while a search waits for a slot, then while its job runs
+type SearchProgress = { queuePosition: number } | { status: SplunkJobStatus; preview?: SplunkResultsData };
+
+// Splunk's earliest_time / latest_time, and the same bounds in epoch ms
+type SearchWindow = { earliest: string; latest: string; from: number; to: number };
+
+/**
+ * Search window for a query range. With a granularity, the range is widened to
+ * whole buckets so repeated refreshes and sibling panels hit the same cache key.
+ */
+function searchWindow(range: TimeRange, granularitySec: number): SearchWindow {
+  let from = range.from.valueOf();
+  let to = range.to.valueOf();
+  if (granularitySec > 0) {
+    const g = granularitySec * 1000;
+    from = Math.floor(from / g) * g;
+    to = Math.ceil(to / g) * g;
+  }
+  return { earliest: toSplunkTimeISO(new Date(from)), latest: toSplunkTimeISO(new Date(to)), from, to };
+}
+
+/** Case-insensitive whole-string matcher where `*` matches anything. */
+function wildcardRegex(pattern: string): RegExp {
+  const body = pattern.replace(/[.+?^${}()|[\]\\]/g, '\\$&').replace(/\*/g, '.*');
+  return new RegExp(`^${body}$`, 'i');
+}
+
+function isJobDone(status: SplunkJobStatus): boolean {
+  const state = status.dispatchState;
+  return !!status.isDone || state === 'DONE' || state === 'PAUSED' || state === 'FINALIZING';
+}
+
+function savedSearchKey(saved: SplunkSavedSearchRef, mode: SavedSearchMode, earliest: string, latest: string) {
+  // A scheduled run's results don't depend on the dashboard window
+  const window = mode === 'history' ? null : [earliest, latest];
+  return JSON.stringify(['saved', saved.owner, saved.app, saved.name, mode, window]);
+}
+
+function withNotice(
+  frame: DataFrame,
+  severity: QueryResultMetaNotice['severity'],
+  text: string,
+  link?: string
+): DataFrame {
+  const notice = link ? { severity, text, link } : { severity, text };
+  return { ...frame, meta: { ...frame.meta, notices: [...(frame.meta?.notices ?? []), notice] } };
+}
+
+const NOTICE_SEVERITY: Record<string, QueryResultMetaNotice['severity']> = {
+  FATAL: 'error',
+  ERROR: 'error',
+  WARN: 'warning',
+  INFO: 'info',
+};
+
+/** Splunk's messages for a finished search as notices, e.g. a field that doesn't exist or truncated results. */
+function withMessages(frame: DataFrame, messages: SplunkMessage[]): DataFrame {
+  return messages.reduce((f, m) => withNotice(f, NOTICE_SEVERITY[m.type] ?? 'info', m.text), frame);
+}
+
+/**
+ * The job behind a frame in its meta: sid and statistics in `custom.job`, the
+ * statistics again for the query inspector, and a notice when maxRows cut the
+ * results short.
+ */
+function withJobMeta(frame: DataFrame, result: SearchResult, queryText: string): DataFrame {
+  const { sid, status = {}, rows } = result;
+  const num = (v: unknown) => (v != null ? Number(v) : undefined);
+  const resultCount = num(status.resultCount);
+  const truncated = !!result.truncated && (resultCount === undefined || resultCount > rows.length);
+  const job = {
+    sid,
+    runDuration: num(status.runDuration),
+    eventCount: num(status.eventCount),
+    scanCount: num(status.scanCount),
+    resultCount: resultCount ?? rows.length,
+    truncated,
+  };
+  const stats: QueryResultMetaStat[] = [];
+  const stat = (displayName: string, value: number | undefined, unit?: string) => {
+    if (value !== undefined) {
+      stats.push({ displayName, value, unit });
+    }
+  };
+  stat('Run duration', job.runDuration, 's');
+  stat('Events matched', job.eventCount);
+  stat('Events scanned', job.scanCount);
+  stat('Results', job.resultCount);
+
+  const withMeta = {
+    ...frame,
+    meta: {
+      ...frame.meta,
+      executedQueryString: queryText,
+      stats: [...(frame.meta?.stats ?? []), ...stats],
+      custom: { ...frame.meta?.custom, job },
+    },
+  };
+  if (!truncated) {
+    return withMeta;
+  }
+  const of = resultCount !== undefined ? ` of ${resultCount}` : '';
+  return withNotice(withMeta, 'warning', `Showing the first ${rows.length}${of} results (Max rows)`);
+}
+
+function withQueuePosition(frame: DataFrame, position: number): DataFrame {
+  const text = `Queued: position ${position}, waiting for a free search slot`;
+  return withNotice(
+    { ...frame, meta: { ...frame.meta, custom: { ...frame.meta?.custom, queuePosition: position } } },
+    'info',
+    text
+  );
+}
+
+/** Progress of a running job, shown as a notice on the partial frames. */
+function withJobProgress(frame: DataFrame, status: SplunkJobStatus): DataFrame {
+  const doneProgress = Number(status.doneProgress ?? 0);
+  const eventCount = Number(status.eventCount ?? 0);
+  const scanCount = Number(status.scanCount ?? 0);
+  const text =
+    `Search running: ${Math.round(doneProgress * 100)}% done, ` +
+    `${eventCount.toLocaleString()} events matched, ${scanCount.toLocaleString()} scanned`;
+  const withProgress = {
+    ...frame,
+    meta: { ...frame.meta, custom: { ...frame.meta?.custom, doneProgress, eventCount, scanCount } },
+  };
+  return withNotice(withProgress, 'info', text);
+}
 
 // ---------- DataSource ----------
 export class DataSource extends DataSourceApi<SplunkQuery, SplunkDataSourceOptions> {
   readonly jsonData: SplunkDataSourceOptions;
   // This is the *Grafana-proxied* base URL, e.g. /api/datasources/proxy/uid/<UID>
   private readonly base: string;
+  // Shared with the editors so they check queries exactly like query() does
+  readonly guardrails: GuardrailPolicy;
+  private readonly searches = new SearchCache<SearchResult, SearchProgress>(
+    () => Math.max(0, this.jsonData.cacheTtlSeconds ?? 30) * 1000
+  );
+  // Shared by all panels using this datasource; 0 lifts the limit
+  private readonly slots = new ConcurrencyLimiter(
+    () => Math.max(0, this.jsonData.maxConcurrentSearches ?? 3) || Infinity
+  );
 
   constructor(instanceSettings: DataSourceInstanceSettings<SplunkDataSourceOptions>) {
     super(instanceSettings);
     this.jsonData = instanceSettings.jsonData || {};
     const raw = (instanceSettings as any).url ?? (this.jsonData as any)?.url ?? '';
     this.base = String(raw).replace(/\/+$/, '');
+    this.guardrails = resolvePolicy(this.jsonData);
+
+    // Annotation queries run through query() as tables; their rows are then mapped to events
+    this.annotations = {
+      QueryEditor: AnnotationEditor,
+      prepareQuery: (anno) =>
+        anno.target?.annotationSource === 'firedAlerts' || anno.target?.queryText?.trim()
+          ? { ...anno.target, refId: anno.target.refId || 'Anno', searchType: 'spl', queryType: 'spl' }
+          : undefined,
+      processEvents: (anno, frames) => {
+        const target = anno.target ?? { refId: 'Anno' };
+        const mapping = target.annotationSource === 'firedAlerts' ? { ...target, ...FIRED_ALERT_MAPPING } : target;
+        return of(framesToAnnotations(frames, mapping));
+      },
+    };
   }
 
   // ---------------- Query (Panels) ----------------
-  async query(req: DataQueryRequest<SplunkQuery>): Promise<DataQueryResponse> {
+  /**
+   * Grafana unsubscribes when a query is superseded (time range change, refresh)
+   * or the panel goes away; that aborts polling and cancels the Splunk jobs.
+   * While jobs run, partial results are emitted with LoadingState.Loading.
+   */
+  query(req: DataQueryRequest<SplunkQuery>): Observable<DataQueryResponse> {
+    return new Observable<DataQueryResponse>((subscriber) => {
+      const controller = new AbortController();
+      const emit = (partial: DataQueryResponse) => subscriber.next(partial);
+      this.runQuery(req, controller.signal, emit)
+        .then((res) => {
+          subscriber.next({ ...res, state: LoadingState.Done });
+          subscriber.complete();
+        })
+        .catch((err) => subscriber.error(err));
+      return () => controller.abort();
+    });
+  }
+
+  private async runQuery(
+    req: DataQueryRequest<SplunkQuery>,
+    signal: AbortSignal,
+    emit: (partial: DataQueryResponse) => void
+  ): Promise<DataQueryResponse> {
     // Guardrail: time range cap
-    if (this.jsonData.safeMode) {
-      const maxRangeSec = this.jsonData.maxRangeSeconds ?? 24 * 60 * 60;
-      const rangeSec = Math.ceil((+req.range.to.valueOf() - +req.range.from.valueOf()) / 1000);
-      if (rangeSec > maxRangeSec) {
-        const info = new MutableDataFrame({
-          refId: 'guardrails',
-          fields: [
-            { name: 'time', type: FieldType.time },
-            { name: 'message', type: FieldType.string },
-          ],
-        });
-        info.add({
-          time: Date.now(),
-          message: `Time range (${rangeSec}s) exceeds the configured cap (${maxRangeSec}s).`,
-        });
-        return { data: [info] };
-      }
+    const rangeCheck = checkTimeRange(req.range, this.guardrails);
+    const targets = req.targets.filter((t) => !t.hide);
+    if (!rangeCheck.range) {
+      const message = rangeCheck.error ?? 'Time range not allowed';
+      return { data: [], errors: targets.map((t) => ({ refId: t.refId, message })) };
     }
+    const { range, notice: rangeNotice } = rangeCheck;
+    // A clamped range needs an interval of its own for $__span
+    const intervalMs =
+      rangeNotice || !req.intervalMs
+        ? rangeUtil.calculateInterval(range, req.maxDataPoints || DEFAULT_DATA_POINTS).intervalMs
+        : req.intervalMs;
 
-    const frames: DataFrame[] = [];
+    // Targets run in parallel; the search slots bound how many jobs actually run
+    const timeoutSec = this.queryTimeoutSeconds();
+    const results: TargetResult[] = targets.map(() => ({ frames: [] }));
+    const emitPartial = () => emit({ data: results.flatMap((r) => r.frames), state: LoadingState.Loading });
 
-    for (const target of req.targets) {
-      if (target.hide) continue;
+    await Promise.all(
+      targets.map(async (target, i) => {
+        const onPartial = (frames: DataFrame[]) => {
+          results[i] = { frames };
+          emitPartial();
+        };
+        // The deadline covers the whole query: queue wait, retries, polling and paging
+        const deadline = withDeadline(signal, timeoutSec * 1000);
+        try {
+          const res = await this.runTarget(
+            target,
+            req.scopedVars,
+            req.filters,
+            range,
+            intervalMs,
+            deadline.signal,
+            onPartial
+          );
+          results[i] = deadline.expired()
+            ? { frames: [], error: { refId: target.refId, message: `Query did not finish within ${timeoutSec} s` } }
+            : res;
+        } finally {
+          deadline.clear();
+        }
+      })
+    );
+
+    const frames = results.flatMap((r) => r.frames);
+    const errors = results.flatMap((r) => (r.error ? [r.error] : []));
+    return {
+      data: rangeNotice ? frames.map((f) => withNotice(f, 'warning', rangeNotice)) : frames,
+      ...(errors.length ? { errors } : {}),
+    };
+  }
+
+  /**
+   * Runs one query target; `onPartial` receives the frames to show while it is
+   * queued or running. Failures come back as the target's error, Splunk's
+   * warnings as notices on its frames.
+   */
+  private async runTarget(
+    target: SplunkQuery,
+    scopedVars: ScopedVars,
+    filters: AdHocVariableFilter[] | undefined,
+    range: TimeRange,
+    intervalMs: number,
+    signal: AbortSignal,
+    onPartial: (frames: DataFrame[]) => void
+  ): Promise<TargetResult> {
+    const failed = (message: string): TargetResult => ({ frames: [], error: { refId: target.refId, message } });
 
+    if (target.annotationSource === 'firedAlerts') {
+      try {
+        const rows = firedAlertRows(await this.getFiredAlerts(target, range, signal));
+        return { frames: [resultsToDataFrame(rows, undefined, { refId: target.refId })] };
+      } catch (err: any) {
+        return failed(requestErrorText(err, 'Fired alerts lookup failed'));
+      }
+    }
+
+    const window = searchWindow(range, Math.max(0, this.jsonData.cacheGranularitySeconds ?? 10));
+    const { earliest, latest } = window;
+    const macros = this.timeMacros(window, intervalMs);
+
+    // Saved searches are checked against their stored SPL
+    const saved = target.searchType === 'saved' ? target.savedSearch : undefined;
+    const savedMode = target.savedSearchMode ?? 'dispatch';
+    const ns = this.namespaceFor(target);
+    let queryText: string;
+    try {
       // Interpolate dashboard variables into the SPL
-      const rawText = target.queryText || '';
-      const queryText = interpolateSPL(rawText, req.scopedVars);
-
-      const validation = isQueryDangerous(queryText, this.jsonData);
-      if (validation) {
-        const warn = new MutableDataFrame({
-          refId: target.refId,
-          fields: [
-            { name: 'time', type: FieldType.time },
-            { name: 'warning', type: FieldType.string },
-          ],
-        });
-        warn.add({ time: Date.now(), warning: validation });
-        frames.push(warn);
-        continue;
+      // Ad-hoc filters go into typed SPL; a dispatched saved search runs its stored SPL as is
+      queryText = saved
+        ? await this.getSavedSearchText(saved, signal)
+        : applyAdHocFilters(interpolateSPL(target.queryText || '', scopedVars, macros), filters);
+    } catch (err: any) {
+      return failed(requestErrorText(err, 'Saved search lookup failed'));
+    }
+
+    const validation = checkQuery(queryText, this.guardrails)?.message;
+    if (validation) {
+      return failed(validation);
+    }
+
+    try {
+      const onProgress = (progress: SearchProgress) => {
+        const empty = createDataFrame({ refId: target.refId, fields: [] });
+        if ('queuePosition' in progress) {
+          onPartial([withQueuePosition(empty, progress.queuePosition)]);
+          return;
+        }
+        const { status, preview } = progress;
+        const partial = preview?.results?.length
+          ? this.toFrames(target, queryText, preview.results, preview.fields)
+          : [empty];
+        onPartial(partial.map((f) => withJobProgress(f, status)));
+      };
+
+      const result = saved
+        ? await this.searches.run(
+            savedSearchKey(saved, savedMode, earliest, latest),
+            signal,
+            onProgress,
+            (jobSignal, progress) =>
+              this.withSearchSlot(jobSignal, progress, () =>
+                this.runSavedSearch(saved, savedMode, earliest, latest, jobSignal, progress)
+              )
+          )
+        : await this.searches.run(
+            JSON.stringify([queryText, earliest, latest, ns]),
+            signal,
+            onProgress,
+            (jobSignal, progress) =>
+              this.withSearchSlot(jobSignal, progress, () =>
+                this.runSearch(queryText, earliest, latest, jobSignal, progress, this.execModeFor(target), ns)
+              )
+          );
+      const frames = this.toFrames(target, queryText, result.rows, result.fields);
+      // Meta and notices need a frame to ride on even when the search found nothing
+      const carriers = frames.length ? frames : [createDataFrame({ refId: target.refId, fields: [] })];
+      const app = saved?.app ?? ns?.app;
+      const link = this.searchUrl(saved ? savedSearchSPL(saved) : queryText, window, app);
+      return {
+        frames: carriers.map((f) => {
+          const frame = withMessages(withJobMeta(f, result, queryText), result.messages ?? []);
+          return link ? this.withSplunkLinks(frame, link, app) : frame;
+        }),
+      };
+    } catch (err: any) {
+      return failed(requestErrorText(err, 'Query failed'));
+    }
+  }
+
+  /** Runs `fn` once a search slot is free, reporting the queue position while it waits. */
+  private async withSearchSlot<T>(
+    signal: AbortSignal,
+    onProgress: ProgressReporter<SearchProgress>,
+    fn: () => Promise<T>
+  ): Promise<T> {
+    const release = await this.slots.acquire(signal, (queuePosition) => onProgress({ queuePosition }));
+    try {
+      return await fn();
+    } finally {
+      release();
+    }
+  }
+
+  /**
+   * Runs one search and returns its results (up to maxRows):
+   * - normal: async job, polled and paged (cancellable, streams previews)
+   * - blocking: the create call returns once the job is done, then results are paged
+   * - oneshot: results come back in the create call itself, no job to poll
+   * - export: results are streamed from /search/jobs/export, capped at maxRows by a trailing `head`
+   */
+  private async runSearch(
+    search: string,
+    earliest: string,
+    latest: string,
+    signal: AbortSignal,
+    onProgress: ProgressReporter<SearchProgress>,
+    execMode: SplunkExecMode = 'normal',
+    ns?: SplunkNamespace
+  ): Promise<SearchResult> {
+    const maxRows = Math.max(0, this.jsonData.maxRows ?? 2000);
+    const jobs = this.jobsUrl(ns);
+    switch (execMode) {
+      case 'oneshot': {
+        const res = await this.runOneshot(jobs, search, earliest, latest, maxRows, signal);
+        const rows = res.results ?? [];
+        const truncated = maxRows > 0 && rows.length >= maxRows;
+        return { rows, fields: res.fields, messages: splunkMessages(res.messages), truncated };
       }
+      case 'export':
+        return this.runExport(jobs, search, earliest, latest, maxRows, signal);
+      case 'blocking': {
+        const { sid } = await this.createSearchJob(jobs, search, earliest, latest, 'blocking', signal);
+        // The create call returns once the job is over, failed or not
+        const status = await this.getJobStatus(sid, signal);
+        throwIfJobFailed(status);
+        const res = await this.pageResults(sid, signal);
+        return { ...res, sid, status, messages: mergeMessages(splunkMessages(status.messages), res.messages) };
+      }
+      default: {
+        const { sid } = await this.createSearchJob(jobs, search, earliest, latest, 'normal', signal);
+        return this.collectJob(sid, signal, onProgress);
+      }
+    }
+  }
 
-      const table = new MutableDataFrame({
-        refId: target.refId,
-        fields: [
-          { name: 'time', type: FieldType.time },
-          { name: 'host', type: FieldType.string },
-          { name: 'message', type: FieldType.string },
-        ],
-      });
+  /**
+   * Dispatches a saved search over the dashboard window, or reads the results of
+   * its most recent scheduled run. Scheduled artifacts are never cancelled.
+   */
+  private async runSavedSearch(
+    saved: SplunkSavedSearchRef,
+    mode: SavedSearchMode,
+    earliest: string,
+    latest: string,
+    signal: AbortSignal,
+    onProgress: ProgressReporter<SearchProgress>
+  ): Promise<SearchResult> {
+    if (mode === 'history') {
+      const sid = await this.getLastScheduledSid(saved, signal);
+      const status = await this.getJobStatus(sid, signal);
+      return { ...(await this.pageResults(sid, signal)), sid, status };
+    }
+    const { sid } = await this.dispatchSavedSearch(saved, earliest, latest, signal);
+    return this.collectJob(sid, signal, onProgress);
+  }
 
-      try {
-        const earliest = toSplunkTimeISO(req.range.from.toDate());
-        const latest = toSplunkTimeISO(req.range.to.toDate());
-
-        const { sid } = await this.createSearchJob(queryText, earliest, latest);
-        await this.waitForJob(sid);
-
-        // Page results until we hit maxRows (guardrail) or no more rows
-        const pageSize = Math.max(1, Math.min(this.jsonData.pageSize ?? 200, 5000));
-        const maxRows = Math.max(0, this.jsonData.maxRows ?? 2000);
-        let offset = 0;
-        let totalAdded = 0;
-
-        while (true) {
-          const res = await this.fetchResults(sid, pageSize, offset);
-          const rows = res.results ?? [];
-          if (!rows.length) break;
-
-          for (const r of rows) {
-            const t = Date.parse(r._time) || Date.now();
-            const host = r.host ?? r.sourceHost ?? r.hosts ?? '';
-            const msg = r._raw ?? r.message ?? r._msg ?? '';
-            table.add({ time: t, host, message: msg });
-          }
-
-          totalAdded += rows.length;
-          if (maxRows > 0 && totalAdded >= maxRows) break;
-
-          offset += rows.length;
-          if (rows.length < pageSize) break;
+  /** Waits for a job we started (cancelling it on abort), then pages its results. */
+  private async collectJob(
+    sid: string,
+    signal: AbortSignal,
+    onProgress: ProgressReporter<SearchProgress>
+  ): Promise<SearchResult> {
+    const maxRows = Math.max(0, this.jsonData.maxRows ?? 2000);
+    const stopCancelOnAbort = this.cancelOnAbort(sid, signal);
+    try {
+      const done = await this.waitForJob(sid, signal, async (status) => {
+        // No preview when streaming is off or no caller takes progress (e.g. variable queries)
+        if (this.jsonData.streamPartialResults === false || !onProgress.listened()) {
+          return;
         }
-      } catch (err: any) {
-        const e = new MutableDataFrame({
-          refId: target.refId,
-          fields: [
-            { name: 'time', type: FieldType.time },
-            { name: 'error', type: FieldType.string },
-          ],
-        });
-        e.add({ time: Date.now(), error: err?.message ?? 'Query failed' });
-        frames.push(e);
-        continue;
+        const preview = status.resultPreviewCount
+          ? await this.fetchResults(sid, maxRows, 0, 'results_preview', signal)
+          : undefined;
+        onProgress({ status, preview });
+      });
+      const res = await this.pageResults(sid, signal);
+      return { ...res, sid, status: done, messages: mergeMessages(splunkMessages(done.messages), res.messages) };
+    } finally {
+      stopCancelOnAbort();
+    }
+  }
+
+  private async pageResults(sid: string, signal: AbortSignal): Promise<SearchResult> {
+    // Page results until we hit maxRows (guardrail) or no more rows
+    const pageSize = Math.max(1, Math.min(this.jsonData.pageSize ?? 200, 5000));
+    const maxRows = Math.max(0, this.jsonData.maxRows ?? 2000);
+    const rows: SplunkResultRow[] = [];
+    let fields: SplunkResultField[] | undefined;
+    let messages: SplunkMessage[] = [];
+    let truncated = false;
+    let offset = 0;
+
+    while (true) {
+      throwIfAborted(signal);
+      const res = await this.fetchResults(sid, pageSize, offset, 'results', signal);
+      const page = res.results ?? [];
+      fields = fields ?? res.fields;
+      messages = mergeMessages(messages, splunkMessages(res.messages));
+      if (!page.length) {
+        break;
       }
 
-      frames.push(table);
+      rows.push(...page);
+      if (maxRows > 0 && rows.length >= maxRows) {
+        // A full last page may have more behind it
+        truncated = rows.length > maxRows || page.length === pageSize;
+        rows.length = maxRows;
+        break;
+      }
+
+      offset += page.length;
+      if (page.length < pageSize) {
+        break;
+      }
     }
+    return { rows, fields, messages, truncated };
+  }
 
-    return { data: frames };
+  // ---------------- Splunk Web links ----------------
+  /** Splunk Web running the query's interpolated SPL over `range`; undefined without a Splunk Web URL. */
+  searchLink(query: SplunkQuery, range: TimeRange, scopedVars: ScopedVars = {}): string | undefined {
+    const window = searchWindow(range, 0);
+    if (query.searchType === 'saved') {
+      return query.savedSearch?.name
+        ? this.searchUrl(savedSearchSPL(query.savedSearch), window, query.savedSearch.app)
+        : undefined;
+    }
+    if (!query.queryText?.trim()) {
+      return undefined;
+    }
+    const intervalMs = rangeUtil.calculateInterval(range, DEFAULT_DATA_POINTS).intervalMs;
+    const spl = interpolateSPL(query.queryText, scopedVars, this.timeMacros(window, intervalMs));
+    return this.searchUrl(spl, window, this.namespaceFor(query)?.app);
+  }
+
+  private searchUrl(spl: string, window: SearchWindow, app?: string): string | undefined {
+    const webUrl = this.jsonData.splunkWebUrl?.trim();
+    return webUrl ? splunkSearchUrl(webUrl, spl, window.from, window.to, app) : undefined;
+  }
+
+  /** "Open in Splunk" as a notice link on the frame, plus the configured data links on its fields, in the query's app. */
+  private withSplunkLinks(frame: DataFrame, link: string, app?: string): DataFrame {
+    const withLink = withNotice(frame, 'info', 'Open in Splunk', link);
+    return withDataLinks(withLink, this.jsonData.dataLinks ?? [], this.jsonData.splunkWebUrl ?? '', app);
+  }
+
+  // ---------------- Namespace ----------------
+  /** Namespace the query's SPL runs in: its own app / owner, else the datasource's; undefined for /services. */
+  private namespaceFor(query: Partial<SplunkQuery>): SplunkNamespace | undefined {
+    const app = query.app?.trim() || this.jsonData.defaultApp?.trim();
+    const owner = query.owner?.trim() || this.jsonData.defaultOwner?.trim();
+    if (!app && !owner) {
+      return undefined;
+    }
+    return { owner: owner || 'nobody', app: app || 'search' };
+  }
+
+  /** Job collection to create searches in, e.g. /servicesNS/nobody/my_app/search/jobs. */
+  private jobsUrl(ns: SplunkNamespace | undefined): string {
+    if (!ns) {
+      return `${this.base}/services/search/jobs`;
+    }
+    return `${this.base}/servicesNS/${encodeURIComponent(ns.owner)}/${encodeURIComponent(ns.app)}/search/jobs`;
+  }
+
+  private execModeFor(query: Partial<SplunkQuery>): SplunkExecMode {
+    return query.execMode ?? this.jsonData.execMode ?? 'normal';
+  }
+
+  private toFrames(
+    target: SplunkQuery,
+    queryText: string,
+    rows: SplunkResultRow[],
+    fields: SplunkResultField[] | undefined
+  ): DataFrame[] {
+    const opts = { refId: target.refId, timeField: target.timeField };
+    if (target.queryType === 'timeseries') {
+      return resultsToTimeSeriesFrames(rows, fields, {
+        ...opts,
+        layout: target.seriesLayout,
+        splitBy: timechartSplitField(queryText),
+        dropNullSeries: target.dropNullSeries,
+        dropOtherSeries: target.dropOtherSeries,
+      });
+    }
+    if (target.queryType === 'logs') {
+      return [resultsToLogsFrame(rows, fields, opts)];
+    }
+    return [resultsToDataFrame(rows, fields, opts)];
   }
 
   // ---------------- Variables ----------------
-  async metricFindQuery(query: SplunkQuery | string): Promise<MetricFindValue[]> {
-    const raw = typeof query === 'string' ? query : query.queryText ?? '';
-    // Interpolate variables here too (in case user references dashboard vars)
-    const qText = interpolateSPL(raw, {});
-    const validation = isQueryDangerous(qText, this.jsonData);
-    if (validation) return [];
+  /**
+   * Variable queries run over the dashboard range (or the query's fixed window)
+   * and resolve other dashboard variables, so variables can chain.
+   */
+  async metricFindQuery(
+    query: SplunkQuery | string,
+    options?: LegacyMetricFindQueryOptions
+  ): Promise<MetricFindValue[]> {
+    const q: SplunkQuery = typeof query === 'string' ? { refId: 'variable', queryText: query } : query;
+    return this.findValues(q, options?.scopedVars ?? {}, options?.range);
+  }
 
-    // Use a cheap time window for variables
-    const earliest = '-15m';
-    const latest = 'now';
+  // ---------------- Ad-hoc filters ----------------
+  /** Field names of a sample of events from the ad-hoc base index. */
+  async getTagKeys(options?: DataSourceGetTagKeysOptions<SplunkQuery>): Promise<MetricFindValue[]> {
+    const keys = await this.getFieldNames(this.jsonData.adHocIndex, options?.timeRange);
+    return keys.filter((k) => !k.startsWith('_')).map((k) => ({ text: k, value: k }));
+  }
+
+  async getTagValues(options: DataSourceGetTagValuesOptions<SplunkQuery>): Promise<MetricFindValue[]> {
+    const query = tagValuesQuery(options.key, options.filters ?? [], this.jsonData.adHocIndex);
+    return this.findValues(query, {}, options.timeRange);
+  }
 
+  /**
+   * Field names of a sample of recent events from `indexes` (comma-separated,
+   * $variables allowed; empty uses the allowed indexes), for ad-hoc keys and
+   * editor autocompletion.
+   */
+  async getFieldNames(indexes: string | undefined, range?: TimeRange): Promise<string[]> {
+    const queryText = tagKeysSearch(indexes, this.guardrails.allowedIndexes);
+    const fields = await this.findValues({ refId: 'fields', queryText }, {}, range);
+    return fields.map((f) => String(f.value)).filter((f) => !NOISE_FIELDS.test(f));
+  }
+
+  /** Runs a variable-style query (typed mode or SPL) and maps its results to options; [] when it can't run. */
+  private async findValues(q: SplunkQuery, scopedVars: ScopedVars, range?: TimeRange): Promise<MetricFindValue[]> {
+    const searchRange = this.variableRange(q, range);
+    if (!searchRange) {
+      return [];
+    }
+    const window = searchWindow(searchRange, Math.max(0, this.jsonData.cacheGranularitySeconds ?? 10));
+    const macros = this.timeMacros(window, rangeUtil.calculateInterval(searchRange, DEFAULT_DATA_POINTS).intervalMs);
+    const qText = interpolateSPL(variableSearch(q, this.guardrails.allowedIndexes), scopedVars, macros);
+    const validation = checkQuery(qText, this.guardrails);
+    if (validation) {
+      return [];
+    }
+
+    const ns = this.namespaceFor(q);
+    const deadline = withDeadline(undefined, this.queryTimeoutSeconds() * 1000);
     try {
-      const { sid } = await this.createSearchJob(qText, earliest, latest);
-      await this.waitForJob(sid);
-      const res = await this.fetchResults(sid, 500, 0);
-      const rows = res.results ?? [];
-      if (!rows.length) return [];
-
-      let firstField = res.fields?.[0]?.name;
-      if (!firstField) firstField = Object.keys(rows[0] ?? {})[0];
-      if (!firstField) return [];
-
-      return rows
-        .map((r) => r[firstField!])
-        .filter((v) => v != null && v !== '')
-        .map((v) => ({ text: String(v), value: String(v) }));
+      const { earliest, latest } = window;
+      const res = await this.searches.run(
+        JSON.stringify([qText, earliest, latest, ns]),
+        deadline.signal,
+        undefined,
+        (jobSignal, progress) =>
+          this.withSearchSlot(jobSignal, progress, () =>
+            this.runSearch(qText, earliest, latest, jobSignal, progress, this.execModeFor(q), ns)
+          )
+      );
+      return toMetricFindValues(res.rows, res.fields, q.variableSort);
     } catch {
       return [];
+    } finally {
+      deadline.clear();
+    }
+  }
+
+  /** The range a variable query searches, after the time range guardrail; null when the range is rejected. */
+  private variableRange(query: SplunkQuery, dashboardRange?: TimeRange): TimeRange | null {
+    const fixed = query.variableWindow?.trim();
+    // Splunk-style "-24h" is accepted as "now-24h"
+    const range = fixed
+      ? rangeUtil.convertRawToRange({ from: fixed.startsWith('-') ? `now${fixed}` : fixed, to: 'now' })
+      : dashboardRange ?? rangeUtil.convertRawToRange({ from: 'now-15m', to: 'now' });
+    if (!range.from.isValid() || !range.to.isValid()) {
+      return null;
     }
+    return checkTimeRange(range, this.guardrails).range ?? null;
+  }
+
+  private queryTimeoutSeconds(): number {
+    return Math.max(0, this.jsonData.queryTimeoutSeconds ?? 300);
+  }
+
+  /** Values of the built-in $__span, $__earliest, $__latest and $__maxRows macros. */
+  private timeMacros(window: SearchWindow, intervalMs: number): TimeMacros {
+    return { from: window.from, to: window.to, intervalMs, maxRows: Math.max(0, this.jsonData.maxRows ?? 2000) };
   }
 
   // ---------------- Health ----------------
   async testDatasource() {
     try {
-      await getBackendSrv().datasourceRequest<any>({
+      await this.request({
         url: `${this.base}/services/server/info?output_mode=json`,
         method: 'GET',
       });
       return { status: 'success', message: 'OK' };
     } catch (err: any) {
-      return { status: 'error', message: err?.message ?? 'Connection failed' };
+      return { status: 'error', message: requestErrorText(err, 'Connection failed') };
     }
   }
 
   // ---------- Splunk REST via Grafana proxy ----------
-  private async createSearchJob(search: string, earliest: string, latest: string): Promise<SplunkJobCreateData> {
+  /**
+   * Every Splunk call goes through here. Each attempt is bounded by
+   * requestTimeoutMs; a busy Splunk is retried with exponential backoff.
+   * `options.abortSignal` cancels the call, and the waits between attempts.
+   */
+  private async request(options: BackendSrvRequest): Promise<any> {
+    const signal = options.abortSignal;
+    const timeoutMs = Math.max(0, this.jsonData.requestTimeoutMs ?? 30000);
+    for (let attempt = 0; ; attempt++) {
+      throwIfAborted(signal);
+      const deadline = withDeadline(signal, timeoutMs);
+      try {
+        // The race settles the call even if the request ignores the abort
+        return await Promise.race([
+          getBackendSrv().datasourceRequest({ ...options, abortSignal: deadline.signal }),
+          new Promise<never>((_, reject) =>
+            deadline.signal.addEventListener('abort', () => reject(abortError()), { once: true })
+          ),
+        ]);
+      } catch (err) {
+        if (signal?.aborted) {
+          throw abortError();
+        }
+        if (deadline.expired()) {
+          throw new Error(`Splunk did not respond within ${timeoutMs} ms`);
+        }
+        if (attempt >= MAX_RETRIES || !isBusy(err)) {
+          throw err;
+        }
+      } finally {
+        deadline.clear();
+      }
+      await sleep(RETRY_BASE_MS * 2 ** attempt * (1 + Math.random() / 4), signal);
+    }
+  }
+
+  private async createSearchJob(
+    jobs: string,
+    search: string,
+    earliest: string,
+    latest: string,
+    execMode: 'normal' | 'blocking' = 'normal',
+    signal?: AbortSignal
+  ): Promise<SplunkJobCreateData> {
     const form = new URLSearchParams();
     form.set('search', search);
     form.set('earliest_time', earliest);
     form.set('latest_time', latest);
+    form.set('exec_mode', execMode);
     form.set('output_mode', 'json');
 
-    const resp: any = await getBackendSrv().datasourceRequest({
-      url: `${this.base}/services/search/jobs`,
+    const resp: any = await this.request({
+      url: jobs,
       method: 'POST',
+      abortSignal: signal,
       headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
       data: form.toString(),
     });
@@ -253,34 +988,263 @@ export class DataSource extends DataSourceApi<SplunkQuery, SplunkDataSourceOptio
     return { sid };
   }
 
-  private async waitForJob(sid: string): Promise<void> {
+  private async runOneshot(
+    jobs: string,
+    search: string,
+    earliest: string,
+    latest: string,
+    count: number,
+    signal?: AbortSignal
+  ): Promise<SplunkResultsData> {
+    const form = new URLSearchParams();
+    form.set('search', search);
+    form.set('earliest_time', earliest);
+    form.set('latest_time', latest);
+    form.set('exec_mode', 'oneshot');
+    form.set('count', String(count));
+    form.set('output_mode', 'json');
+
+    const resp: any = await this.request({
+      url: jobs,
+      method: 'POST',
+      abortSignal: signal,
+      headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+      data: form.toString(),
+    });
+    const data: SplunkResultsData = resp?.data ?? resp;
+    return data;
+  }
+
+  private async runExport(
+    jobs: string,
+    search: string,
+    earliest: string,
+    latest: string,
+    maxRows: number,
+    signal?: AbortSignal
+  ): Promise<SearchResult> {
+    const form = new URLSearchParams();
+    // The response is read whole, so Splunk stops sending at maxRows
+    form.set('search', maxRows > 0 ? `${search.trimEnd()} | head ${maxRows}` : search);
+    form.set('earliest_time', earliest);
+    form.set('latest_time', latest);
+    form.set('output_mode', 'json');
+
+    const resp: any = await this.request({
+      url: `${jobs}/export`,
+      method: 'POST',
+      abortSignal: signal,
+      headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+      data: form.toString(),
+      responseType: 'text',
+    });
+    return parseExportResults(resp?.data ?? resp, maxRows);
+  }
+
+  /** Enabled apps, hidden ones (add-ons) included, for the app pickers. */
+  async getApps(): Promise<SplunkApp[]> {
+    const resp: any = await this.request({
+      url: `${this.base}/services/apps/local?output_mode=json&count=0&f=label&f=visible&f=disabled`,
+      method: 'GET',
+    });
+    const data: SplunkAppsData = resp?.data ?? resp;
+    return (data.entry ?? [])
+      .filter((e) => !isTrue(e.content?.disabled))
+      .map((e) => ({ name: e.name, label: e.content?.label || e.name, visible: isTrue(e.content?.visible) }));
+  }
+
+  /** Saved searches visible to the service account, for the query editor. */
+  async getSavedSearches(): Promise<SplunkSavedSearch[]> {
+    const resp: any = await this.request({
+      url: `${this.base}/servicesNS/-/-/saved/searches?output_mode=json&count=0&f=search&f=is_scheduled&f=disabled`,
+      method: 'GET',
+    });
+    const data: SplunkSavedSearchesData = resp?.data ?? resp;
+    return (data.entry ?? [])
+      .filter((e) => !isTrue(e.content?.disabled))
+      .map((e) => ({
+        name: e.name,
+        owner: e.acl?.owner ?? 'nobody',
+        app: e.acl?.app ?? 'search',
+        search: e.content?.search ?? '',
+        isScheduled: isTrue(e.content?.is_scheduled),
+      }));
+  }
+
+  private savedSearchUrl(saved: SplunkSavedSearchRef, suffix = ''): string {
+    const ns = `${encodeURIComponent(saved.owner)}/${encodeURIComponent(saved.app)}`;
+    return `${this.base}/servicesNS/${ns}/saved/searches/${encodeURIComponent(saved.name)}${suffix}`;
+  }
+
+  private async getSavedSearchText(saved: SplunkSavedSearchRef, signal?: AbortSignal): Promise<string> {
+    if (!saved.name) {
+      throw new Error('No saved search selected');
+    }
+    const resp: any = await this.request({
+      url: `${this.savedSearchUrl(saved)}?output_mode=json&f=search`,
+      method: 'GET',
+      abortSignal: signal,
+    });
+    const data: SplunkSavedSearchesData = resp?.data ?? resp;
+    return data.entry?.[0]?.content?.search ?? '';
+  }
+
+  private async dispatchSavedSearch(
+    saved: SplunkSavedSearchRef,
+    earliest: string,
+    latest: string,
+    signal?: AbortSignal
+  ): Promise<SplunkJobCreateData> {
+    const form = new URLSearchParams();
+    form.set('dispatch.earliest_time', earliest);
+    form.set('dispatch.latest_time', latest);
+    form.set('trigger_actions', '0');
+    form.set('output_mode', 'json');
+
+    const resp: any = await this.request({
+      url: this.savedSearchUrl(saved, '/dispatch'),
+      method: 'POST',
+      abortSignal: signal,
+      headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+      data: form.toString(),
+    });
+
+    const data: SplunkJobCreateData = resp?.data ?? resp;
+    const { sid } = data || {};
+    if (!sid) {
+      throw new Error(`Failed to dispatch saved search "${saved.name}"`);
+    }
+    return { sid };
+  }
+
+  /** sid of the newest finished scheduled run of a saved search. */
+  private async getLastScheduledSid(saved: SplunkSavedSearchRef, signal?: AbortSignal): Promise<string> {
+    const resp: any = await this.request({
+      url: `${this.savedSearchUrl(saved, '/history')}?output_mode=json&count=0`,
+      method: 'GET',
+      abortSignal: signal,
+    });
+    const data: SplunkSavedSearchHistoryData = resp?.data ?? resp;
+    const runs = (data.entry ?? [])
+      .filter((e) => isTrue(e.content?.isScheduled) && isTrue(e.content?.isDone))
+      .sort((a, b) => Date.parse(b.published ?? '') - Date.parse(a.published ?? ''));
+    const sid = runs[0]?.name;
+    if (!sid) {
+      throw new Error(`Saved search "${saved.name}" has no finished scheduled run`);
+    }
+    return sid;
+  }
+
+  /** Alerts triggered within `range`, optionally narrowed to an alert name (`*` wildcards) and app. */
+  private async getFiredAlerts(query: SplunkQuery, range: TimeRange, signal?: AbortSignal): Promise<FiredAlert[]> {
+    const resp: any = await this.request({
+      url: `${this.base}/services/alerts/fired_alerts/-?output_mode=json&count=0`,
+      method: 'GET',
+      abortSignal: signal,
+    });
+    const data: SplunkFiredAlertsData = resp?.data ?? resp;
+    const name = query.alertName?.trim() ? wildcardRegex(query.alertName.trim()) : null;
+    const app = query.alertApp?.trim().toLowerCase();
+    const from = range.from.valueOf();
+    const to = range.to.valueOf();
+    const maxRows = Math.max(0, this.jsonData.maxRows ?? 2000);
+
+    const alerts = (data.entry ?? [])
+      .map((e) => ({
+        name: e.content?.savedsearch_name ?? e.name,
+        app: e.acl?.app ?? '',
+        owner: e.acl?.owner ?? '',
+        severity: Number(e.content?.severity ?? 0),
+        triggerTime: e.content?.trigger_time ?? '',
+        sid: e.content?.sid ?? '',
+      }))
+      .filter((a) => {
+        const t = parseSplunkTime(a.triggerTime);
+        const inRange = t != null && t >= from && t <= to;
+        return inRange && (!name || name.test(a.name)) && (!app || a.app.toLowerCase() === app);
+      });
+    return maxRows > 0 ? alerts.slice(0, maxRows) : alerts;
+  }
+
+  /**
+   * Polls a job until it is done and returns its final status; throws as soon
+   * as it fails. Polls start pollIntervalMs apart and back off from there, so
+   * long searches cost fewer status calls.
+   */
+  private async waitForJob(
+    sid: string,
+    signal?: AbortSignal,
+    onProgress?: (status: SplunkJobStatus) => Promise<void>
+  ): Promise<SplunkJobStatus> {
     const pollMs = Math.max(100, this.jsonData.pollIntervalMs ?? 1000);
     const maxPolls = Math.max(1, this.jsonData.maxPolls ?? 30);
+    let delay = pollMs;
 
     for (let i = 0; i < maxPolls; i++) {
-      const done = await this.isJobDone(sid);
-      if (done) return;
-      await sleep(pollMs);
+      throwIfAborted(signal);
+      const status = await this.getJobStatus(sid, signal);
+      throwIfJobFailed(status);
+      if (isJobDone(status)) {
+        return status;
+      }
+      await onProgress?.(status);
+      await sleep(delay, signal);
+      delay = Math.min(delay * POLL_BACKOFF, Math.max(pollMs, MAX_POLL_INTERVAL_MS));
     }
     throw new Error('Splunk job did not complete within polling limits');
   }
 
-  private async isJobDone(sid: string): Promise<boolean> {
-    const resp: any = await getBackendSrv().datasourceRequest({
+  /** Cancels the job once the signal aborts; returns a function that stops listening. */
+  private cancelOnAbort(sid: string, signal: AbortSignal): () => void {
+    const onAbort = () => {
+      this.cancelSearchJob(sid).catch(() => {});
+    };
+    // Aborted while the job was being created
+    if (signal.aborted) {
+      onAbort();
+      return () => {};
+    }
+    signal.addEventListener('abort', onAbort, { once: true });
+    return () => signal.removeEventListener('abort', onAbort);
+  }
+
+  private async cancelSearchJob(sid: string): Promise<void> {
+    const form = new URLSearchParams();
+    form.set('action', 'cancel');
+    form.set('output_mode', 'json');
+
+    await this.request({
+      url: `${this.base}/services/search/jobs/${encodeURIComponent(sid)}/control`,
+      method: 'POST',
+      headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+      data: form.toString(),
+    });
+  }
+
+  private async getJobStatus(sid: string, signal?: AbortSignal): Promise<SplunkJobStatus> {
+    const resp: any = await this.request({
       url: `${this.base}/services/search/jobs/${encodeURIComponent(sid)}?output_mode=json`,
       method: 'GET',
+      abortSignal: signal,
     });
     const data: SplunkJobStatusData = resp?.data ?? resp;
-    const entry = data.entry?.[0];
-    const done = entry?.content?.isDone;
-    const state = entry?.content?.dispatchState;
-    return !!done || state === 'DONE' || state === 'PAUSED' || state === 'FINALIZING';
+    return data.entry?.[0]?.content ?? {};
   }
 
-  private async fetchResults(sid: string, count: number, offset: number): Promise<SplunkResultsData> {
-    const resp: any = await getBackendSrv().datasourceRequest({
-      url: `${this.base}/services/search/jobs/${encodeURIComponent(sid)}/results?output_mode=json&count=${count}&offset=${offset}`,
+  /** `results_preview` returns what a running job has so far; `results` needs a finished job. */
+  private async fetchResults(
+    sid: string,
+    count: number,
+    offset: number,
+    endpoint: 'results' | 'results_preview' = 'results',
+    signal?: AbortSignal
+  ): Promise<SplunkResultsData> {
+    const resp: any = await this.request({
+      url: `${this.base}/services/search/jobs/${encodeURIComponent(
+        sid
+      )}/${endpoint}?output_mode=json&count=${count}&offset=${offset}`,
       method: 'GET',
+      abortSignal: signal,
     });
     const data: SplunkResultsData = resp?.data ?? resp;
     return data;
@@ -0,0 +1,212 @@
+import { DataFrameType, FieldType, LogLevel } from '@grafana/data';
+import {
+  fieldNames,
+  inferFieldType,
+  parseSplunkTime,
+  resultsToDataFrame,
+  resultsToLogsFrame,
+  resultsToTimeSeriesFrames,
+  timechartSplitField,
+  toLogLevel,
+} from './frames';
+
+describe('parseSplunkTime', () => {
+  it('reads ISO strings, epoch seconds and epoch millis', () => {
+    expect(parseSplunkTime('2026-01-02T03:04:05.000+00:00')).toBe(Date.UTC(2026, 0, 2, 3, 4, 5));
+    expect(parseSplunkTime('1767322800.5')).toBe(1767322800500);
+    expect(parseSplunkTime(1767322800500)).toBe(1767322800500);
+  });
+
+  it('returns null for empty or unparseable values', () => {
+    expect(parseSplunkTime('')).toBeNull();
+    expect(parseSplunkTime(undefined)).toBeNull();
+    expect(parseSplunkTime('yesterday')).toBeNull();
+  });
+});
+
+describe('fieldNames', () => {
+  it('keeps Splunk column order, then adds keys only found in rows', () => {
+    expect(fieldNames([{ name: 'b' }, 'a'], [{ a: 1, c: 2 }])).toEqual(['b', 'a', 'c']);
+  });
+
+  it('drops internal bookkeeping fields', () => {
+    expect(fieldNames(undefined, [{ _time: 1, _bkt: 'x', _cd: 'y', _raw: 'r' }])).toEqual(['_time', '_raw']);
+  });
+});
+
+describe('inferFieldType', () => {
+  it('infers numbers, booleans, times and strings from the non-empty values', () => {
+    expect(inferFieldType('n', ['1', '-2.5', '', null, '3e2'], '_time')).toBe(FieldType.number);
+    expect(inferFieldType('b', ['true', 'FALSE'], '_time')).toBe(FieldType.boolean);
+    expect(inferFieldType('t', ['2026-01-02T03:04:05'], '_time')).toBe(FieldType.time);
+    expect(inferFieldType('s', ['1', 'web'], '_time')).toBe(FieldType.string);
+  });
+
+  it('makes the time field a time column when its values parse', () => {
+    expect(inferFieldType('_time', ['1767322800'], '_time')).toBe(FieldType.time);
+    expect(inferFieldType('_time', ['later'], '_time')).toBe(FieldType.string);
+    expect(inferFieldType('_time', [], '_time')).toBe(FieldType.time);
+  });
+
+  it('does not read epoch-like numbers in other columns as time', () => {
+    expect(inferFieldType('bytes', ['1767322800'], '_time')).toBe(FieldType.number);
+  });
+});
+
+describe('resultsToDataFrame', () => {
+  it('builds one typed field per column', () => {
+    const frame = resultsToDataFrame(
+      [
+        { _time: '2026-01-02T00:00:00Z', host: 'web-1', count: '3', tags: ['a', 'b'] },
+        { _time: '2026-01-02T00:01:00Z', host: 'web-2', count: '' },
+      ],
+      ['_time', 'host', 'count', 'tags'],
+      { refId: 'A' }
+    );
+    expect(frame.refId).toBe('A');
+    expect(frame.fields.map((f) => [f.name, f.type])).toEqual([
+      ['_time', FieldType.time],
+      ['host', FieldType.string],
+      ['count', FieldType.number],
+      ['tags', FieldType.string],
+    ]);
+    expect(frame.fields[0].values).toEqual([Date.UTC(2026, 0, 2, 0, 0), Date.UTC(2026, 0, 2, 0, 1)]);
+    expect(frame.fields[2].values).toEqual([3, null]);
+    expect(frame.fields[3].values).toEqual(['a, b', null]);
+  });
+
+  it('uses the configured time field', () => {
+    const frame = resultsToDataFrame([{ ts: '1767322800' }], undefined, { refId: 'A', timeField: 'ts' });
+    expect(frame.fields[0]).toMatchObject({ name: 'ts', type: FieldType.time, values: [1767322800000] });
+  });
+});
+
+describe('timechartSplitField', () => {
+  it('reads the by field of the last top-level timechart or chart', () => {
+    expect(timechartSplitField('index=web | timechart span=5m count by host')).toBe('host');
+    expect(timechartSplitField('index=web | chart count over _time by "status"')).toBe('status');
+    expect(timechartSplitField('index=web | timechart count')).toBeUndefined();
+    expect(timechartSplitField('index=web [ search x | timechart count by y ] | stats count')).toBeUndefined();
+  });
+});
+
+describe('resultsToTimeSeriesFrames', () => {
+  const rows = [
+    { _time: '2026-01-02T00:00:00Z', _span: '300', 'web-1': '1', 'web-2': '2', NULL: '5', OTHER: '9' },
+    { _time: '2026-01-02T00:05:00Z', _span: '300', 'web-1': '3', 'web-2': '', NULL: '0', OTHER: '1' },
+  ];
+  const fields = ['_time', 'web-1', 'web-2', 'NULL', 'OTHER', '_span'];
+
+  it('builds one wide frame with a labeled field per series', () => {
+    const [frame, ...rest] = resultsToTimeSeriesFrames(rows, fields, { refId: 'A', splitBy: 'host' });
+    expect(rest).toEqual([]);
+    expect(frame.meta?.type).toBe(DataFrameType.TimeSeriesWide);
+    expect(frame.fields[0]).toMatchObject({ name: '_time', type: FieldType.time, config: { interval: 300000 } });
+    expect(frame.fields.slice(1).map((f) => [f.name, f.labels])).toEqual([
+      ['Value', { host: 'web-1' }],
+      ['Value', { host: 'web-2' }],
+      ['Value', { host: 'NULL' }],
+      ['Value', { host: 'OTHER' }],
+    ]);
+    expect(frame.fields[2].values).toEqual([2, null]);
+  });
+
+  it('builds one frame per series in the long layout', () => {
+    const frames = resultsToTimeSeriesFrames(rows, fields, { refId: 'A', splitBy: 'host', layout: 'long' });
+    expect(frames.map((f) => f.name)).toEqual(['web-1', 'web-2', 'NULL', 'OTHER']);
+    expect(frames.every((f) => f.meta?.type === DataFrameType.TimeSeriesMulti && f.fields.length === 2)).toBe(true);
+  });
+
+  it('drops the NULL and OTHER series on request', () => {
+    const [frame] = resultsToTimeSeriesFrames(rows, fields, {
+      refId: 'A',
+      splitBy: 'host',
+      dropNullSeries: true,
+      dropOtherSeries: true,
+    });
+    expect(frame.fields.map((f) => f.labels?.host ?? f.name)).toEqual(['_time', 'web-1', 'web-2']);
+  });
+
+  it('splits columns of several aggregates into name and label', () => {
+    const [frame] = resultsToTimeSeriesFrames(
+      [{ _time: '1767322800', 'count: web-1': '1', 'avg(bytes): web-1': '2.5' }],
+      undefined,
+      { refId: 'A', splitBy: 'host' }
+    );
+    expect(frame.fields.slice(1).map((f) => [f.name, f.labels, f.values])).toEqual([
+      ['count', { host: 'web-1' }, [1]],
+      ['avg(bytes)', { host: 'web-1' }, [2.5]],
+    ]);
+  });
+
+  it('names unsplit series after their column', () => {
+    const [frame] = resultsToTimeSeriesFrames([{ _time: '1767322800', count: '4' }], undefined, { refId: 'A' });
+    expect(frame.fields[1]).toMatchObject({ name: 'count', labels: undefined, values: [4] });
+  });
+
+  it('falls back to a table without a time column', () => {
+    const [frame] = resultsToTimeSeriesFrames([{ host: 'web-1', count: '4' }], undefined, { refId: 'A' });
+    expect(frame.meta?.type).toBeUndefined();
+    expect(frame.fields.map((f) => f.name)).toEqual(['host', 'count']);
+  });
+});
+
+describe('toLogLevel', () => {
+  it('reads level names and syslog severities', () => {
+    expect(toLogLevel('ERROR')).toBe(LogLevel.error);
+    expect(toLogLevel(' warning ')).toBe(LogLevel.warning);
+    expect(toLogLevel('3')).toBe(LogLevel.error);
+    expect(toLogLevel('7')).toBe(LogLevel.debug);
+  });
+
+  it('reads full syslog priorities', () => {
+    // facility 4 (auth) * 8 + severity 2 (critical)
+    expect(toLogLevel(34)).toBe(LogLevel.critical);
+  });
+
+  it('is unknown for anything else', () => {
+    expect(toLogLevel('')).toBe(LogLevel.unknown);
+    expect(toLogLevel('chatty')).toBe(LogLevel.unknown);
+  });
+});
+
+describe('resultsToLogsFrame', () => {
+  it('builds labels, time, line, level and id per event', () => {
+    const frame = resultsToLogsFrame(
+      [
+        {
+          _time: '1767322800',
+          _raw: 'GET /a 500',
+          _bkt: 'main~1',
+          _cd: '1:2',
+          host: 'web-1',
+          severity: 'err',
+          punct: '_/_',
+          status: ['500', '502'],
+          empty: '',
+        },
+        { _time: '1767322801', message: 'no raw', host: 'web-2' },
+      ],
+      undefined,
+      { refId: 'A' }
+    );
+    expect(frame.meta?.preferredVisualisationType).toBe('logs');
+    const byName = Object.fromEntries(frame.fields.map((f) => [f.name, f.values]));
+    expect(byName.labels).toEqual([
+      { host: 'web-1', status: '500, 502' },
+      { message: 'no raw', host: 'web-2' },
+    ]);
+    expect(byName._time).toEqual([1767322800000, 1767322801000]);
+    expect(byName.line).toEqual(['GET /a 500', 'no raw']);
+    expect(byName.level).toEqual([LogLevel.error, LogLevel.unknown]);
+    expect(byName.id).toEqual(['main~1:1:2', 'A_1']);
+  });
+
+  it('prefers log_level over other level fields', () => {
+    const frame = resultsToLogsFrame([{ _raw: 'x', log_level: 'debug', severity: 'critical' }], undefined, {
+      refId: 'A',
+    });
+    expect(frame.fields.find((f) => f.name === 'level')?.values).toEqual([LogLevel.debug]);
+    expect(frame.fields[0].values).toEqual([{ severity: 'critical' }]);
+  });
+});
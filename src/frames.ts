@@ -0,0 +1,314 @@
+import {
+  createDataFrame,
+  DataFrame,
+  DataFrameType,
+  Field,
+  FieldType,
+  Labels,
+  LogLevel,
+  NumericLogLevel,
+} from '@grafana/data';
+import { parseSPL } from './spl';
+import { DEFAULT_TIME_FIELD, SeriesLayout } from './types';
+
+// Splunk result payloads (data payloads only)
+export type SplunkResultField = { name: string } | string;
+export type SplunkResultRow = Record<string, any>;
+
+// Bookkeeping fields Splunk attaches to raw events; never useful in a panel
+const INTERNAL_FIELDS = new Set(['_bkt', '_cd', '_si', '_serial', '_kv', '_eventtype_color', '_subsecond']);
+
+// Helper columns timechart/chart add next to the series
+const SPAN_FIELDS = new Set(['_span', '_spandays']);
+const NULL_SERIES = 'NULL';
+const OTHER_SERIES = 'OTHER';
+
+// Where a log level may live, in order of preference; syslog priority is numeric
+const LEVEL_FIELDS = ['log_level', 'level', 'severity', 'priority', 'pri'];
+// Per-event fields Splunk computes in verbose mode; too noisy for labels
+export const NOISE_FIELDS = /^(punct|linecount|timestartpos|timeendpos|date_\w+)$/;
+
+const ISO_TIME = /^\d{4}-\d{2}-\d{2}[T ]\d{2}:\d{2}/;
+const NUMERIC = /^[-+]?(\d+\.?\d*|\.\d+)([eE][-+]?\d+)?$/;
+
+// ---------- Value helpers ----------
+function isEmpty(v: unknown): boolean {
+  return v == null || v === '';
+}
+
+/** Multi-value fields arrive as arrays; render them as a single cell. */
+function flatten(v: unknown): unknown {
+  return Array.isArray(v) ? v.join(', ') : v;
+}
+
+function isNumeric(v: unknown): boolean {
+  return typeof v === 'number' || (typeof v === 'string' && NUMERIC.test(v.trim()));
+}
+
+function isBoolean(v: unknown): boolean {
+  return typeof v === 'boolean' || (typeof v === 'string' && /^(true|false)$/i.test(v));
+}
+
+/**
+ * Parses a Splunk time value to epoch millis.
+ * Accepts ISO strings (the `_time` format) and epoch seconds/millis.
+ */
+export function parseSplunkTime(v: unknown): number | null {
+  if (isEmpty(v)) {
+    return null;
+  }
+  if (isNumeric(v)) {
+    const n = Number(v);
+    // Splunk epochs are seconds (with optional fraction); anything larger is already millis
+    return Math.abs(n) < 1e11 ? Math.round(n * 1000) : n;
+  }
+  const t = Date.parse(String(v));
+  return Number.isNaN(t) ? null : t;
+}
+
+// ---------- Schema ----------
+/**
+ * Column names in Splunk's order. Falls back to the order keys first appear in
+ * rows when the payload has no `fields` array (e.g. some export responses).
+ */
+export function fieldNames(fields: SplunkResultField[] | undefined, rows: SplunkResultRow[]): string[] {
+  const names: string[] = [];
+  const seen = new Set<string>();
+  const push = (n: string) => {
+    if (n && !seen.has(n) && !INTERNAL_FIELDS.has(n)) {
+      seen.add(n);
+      names.push(n);
+    }
+  };
+  for (const f of fields ?? []) {
+    push(typeof f === 'string' ? f : f?.name);
+  }
+  for (const r of rows) {
+    Object.keys(r).forEach(push);
+  }
+  return names;
+}
+
+/**
+ * Infers a Grafana field type from the non-empty values of a column.
+ * The configured time field is a time column whenever its values parse as time.
+ */
+export function inferFieldType(name: string, values: unknown[], timeField: string): FieldType {
+  const present = values.filter((v) => !isEmpty(v) && !Array.isArray(v));
+  if (!present.length) {
+    return name === timeField ? FieldType.time : FieldType.string;
+  }
+  if (name === timeField) {
+    return present.every((v) => parseSplunkTime(v) != null) ? FieldType.time : FieldType.string;
+  }
+  if (present.every(isNumeric)) {
+    return FieldType.number;
+  }
+  if (present.every(isBoolean)) {
+    return FieldType.boolean;
+  }
+  if (present.every((v) => typeof v === 'string' && ISO_TIME.test(v) && !Number.isNaN(Date.parse(v)))) {
+    return FieldType.time;
+  }
+  return FieldType.string;
+}
+
+function convert(v: unknown, type: FieldType): unknown {
+  if (isEmpty(v)) {
+    return null;
+  }
+  switch (type) {
+    case FieldType.time:
+      return parseSplunkTime(v);
+    case FieldType.number:
+      return Number(v);
+    case FieldType.boolean:
+      return typeof v === 'boolean' ? v : String(v).toLowerCase() === 'true';
+    default:
+      return String(flatten(v));
+  }
+}
+
+// ---------- Frames ----------
+export interface FrameOptions {
+  refId: string;
+  timeField?: string;
+}
+
+/**
+ * Builds a table frame from a Splunk results payload, one Grafana field per
+ * Splunk column, keeping Splunk's column order.
+ */
+export function resultsToDataFrame(
+  rows: SplunkResultRow[],
+  fields: SplunkResultField[] | undefined,
+  opts: FrameOptions
+): DataFrame {
+  const timeField = opts.timeField?.trim() || DEFAULT_TIME_FIELD;
+  const names = fieldNames(fields, rows);
+
+  return createDataFrame({
+    refId: opts.refId,
+    fields: names.map((name) => {
+      const raw = rows.map((r) => r[name]);
+      const type = inferFieldType(name, raw, timeField);
+      return { name, type, values: raw.map((v) => convert(v, type)) };
+    }),
+  });
+}
+
+// ---------- Time series ----------
+export interface TimeSeriesOptions extends FrameOptions {
+  layout?: SeriesLayout;
+  splitBy?: string; // the `by` field of the timechart; becomes the label key
+  dropNullSeries?: boolean;
+  dropOtherSeries?: boolean;
+}
+
+/**
+ * Finds the split-by field of the last timechart/chart stage, e.g. `host` in
+ * `| timechart span=5m count by host` or `| chart count over _time by host`.
+ */
+export function timechartSplitField(spl: string): string | undefined {
+  const stage = parseSPL(spl)
+    .filter((s) => !s.parent && (s.command === 'timechart' || s.command === 'chart'))
+    .pop();
+  return stage && /\bby\s+"?([^\s",]+)"?/i.exec(stage.args)?.[1];
+}
+
+/**
+ * Splits a timechart column into a value name and labels. With several
+ * aggregates and a split-by, Splunk names columns `count: web01`.
+ */
+function seriesOf(column: string, splitBy: string | undefined): { name: string; labels?: Labels } {
+  if (!splitBy) {
+    return { name: column };
+  }
+  const sep = column.indexOf(': ');
+  if (sep > 0) {
+    return { name: column.slice(0, sep), labels: { [splitBy]: column.slice(sep + 2) } };
+  }
+  return { name: 'Value', labels: { [splitBy]: column } };
+}
+
+function isDroppedSeries(column: string, opts: TimeSeriesOptions): boolean {
+  const split = column.includes(': ') ? column.slice(column.indexOf(': ') + 2) : column;
+  return (!!opts.dropNullSeries && split === NULL_SERIES) || (!!opts.dropOtherSeries && split === OTHER_SERIES);
+}
+
+/**
+ * Builds time series frames from timechart/chart-over-time output.
+ * - wide: one frame, a time field plus one labeled number field per series
+ * - long: one frame per series (Grafana's multi-frame layout)
+ * Falls back to a table frame when the results carry no time column.
+ */
+export function resultsToTimeSeriesFrames(
+  rows: SplunkResultRow[],
+  fields: SplunkResultField[] | undefined,
+  opts: TimeSeriesOptions
+): DataFrame[] {
+  const timeField = opts.timeField?.trim() || DEFAULT_TIME_FIELD;
+  const names = fieldNames(fields, rows);
+  if (!names.includes(timeField)) {
+    return [resultsToDataFrame(rows, fields, opts)];
+  }
+
+  // timechart reports its bucket size in seconds on every row
+  const span = Number(rows[0]?._span);
+  const time: Field = {
+    name: timeField,
+    type: FieldType.time,
+    config: Number.isFinite(span) && span > 0 ? { interval: span * 1000 } : {},
+    values: rows.map((r) => parseSplunkTime(r[timeField])),
+  };
+
+  const series: Field[] = names
+    .filter((n) => n !== timeField && !SPAN_FIELDS.has(n) && !isDroppedSeries(n, opts))
+    .map((column) => {
+      const { name, labels } = seriesOf(column, opts.splitBy);
+      const values = rows.map((r) => (isNumeric(r[column]) ? Number(r[column]) : null));
+      return { name, type: FieldType.number, config: {}, labels, values };
+    });
+
+  if (opts.layout === 'long') {
+    return series.map((f) =>
+      createDataFrame({
+        refId: opts.refId,
+        name: f.labels ? Object.values(f.labels).join(' ') : f.name,
+        meta: { type: DataFrameType.TimeSeriesMulti },
+        fields: [time, f],
+      })
+    );
+  }
+
+  return [
+    createDataFrame({
+      refId: opts.refId,
+      meta: { type: DataFrameType.TimeSeriesWide },
+      fields: [time, ...series],
+    }),
+  ];
+}
+
+// ---------- Logs ----------
+/**
+ * Maps a level value to a Grafana log level. Numbers are syslog severities, or
+ * full syslog priorities (facility * 8 + severity) when above 7.
+ */
+export function toLogLevel(v: unknown): LogLevel {
+  if (isEmpty(v)) {
+    return LogLevel.unknown;
+  }
+  if (isNumeric(v)) {
+    const n = Number(v);
+    return NumericLogLevel[String(n > 7 ? n % 8 : n)] ?? LogLevel.unknown;
+  }
+  const key = String(v).trim().toLowerCase() as keyof typeof LogLevel;
+  return LogLevel[key] ?? LogLevel.unknown;
+}
+
+/**
+ * Builds a logs frame from an event search: time, the raw event as the line,
+ * a detected `level`, and every other field as per-row labels.
+ */
+export function resultsToLogsFrame(
+  rows: SplunkResultRow[],
+  fields: SplunkResultField[] | undefined,
+  opts: FrameOptions
+): DataFrame {
+  const timeField = opts.timeField?.trim() || DEFAULT_TIME_FIELD;
+  const names = fieldNames(fields, rows);
+  const levelField = LEVEL_FIELDS.find((f) => names.includes(f));
+  const labelNames = names.filter((n) => !n.startsWith('_') && n !== levelField && !NOISE_FIELDS.test(n));
+
+  return createDataFrame({
+    refId: opts.refId,
+    meta: { preferredVisualisationType: 'logs', custom: { frameType: 'LabeledTimeValues' } },
+    fields: [
+      { name: 'labels', type: FieldType.other, values: rows.map((r) => logLabels(r, labelNames)) },
+      { name: timeField, type: FieldType.time, values: rows.map((r) => parseSplunkTime(r[timeField])) },
+      { name: 'line', type: FieldType.string, values: rows.map((r) => String(flatten(r._raw ?? r.message ?? ''))) },
+      {
+        name: 'level',
+        type: FieldType.string,
+        values: rows.map((r) => (levelField ? toLogLevel(r[levelField]) : LogLevel.unknown)),
+      },
+      // _bkt + _cd identify an event uniquely across indexers
+      {
+        name: 'id',
+        type: FieldType.string,
+        values: rows.map((r, i) => (r._bkt && r._cd ? `${r._bkt}:${r._cd}` : `${opts.refId}_${i}`)),
+      },
+    ],
+  });
+}
+
+function logLabels(row: SplunkResultRow, names: string[]): Labels {
+  const labels: Labels = {};
+  for (const n of names) {
+    if (!isEmpty(row[n])) {
+      labels[n] = String(flatten(row[n]));
+    }
+  }
+  return labels;
+}
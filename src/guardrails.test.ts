@@ -0,0 +1,235 @@
+import { dateTime, TimeRange } from '@grafana/data';
+import {
+  bannedCommandsFor,
+  checkQuery,
+  checkTimeRange,
+  compileCommandMatcher,
+  compileIndexAllowlist,
+  GUARDRAIL_PRESETS,
+  indexTerms,
+  resolvePolicy,
+  validateBannedCommands,
+} from './guardrails';
+import { SplunkDataSourceOptions } from './types';
+
+const check = (spl: string, opts: SplunkDataSourceOptions = {}) => checkQuery(spl, resolvePolicy(opts));
+
+describe('bannedCommandsFor', () => {
+  it('uses the standard preset by default', () => {
+    expect(bannedCommandsFor({})).toEqual(GUARDRAIL_PRESETS.standard);
+  });
+
+  it('uses the chosen preset', () => {
+    expect(bannedCommandsFor({ guardrailPreset: 'strict' })).toEqual(GUARDRAIL_PRESETS.strict);
+  });
+
+  it('uses the custom list when overridden', () => {
+    expect(bannedCommandsFor({ overrideBannedCommands: true, bannedCommands: 'delete\n\n rest ' })).toEqual([
+      'delete',
+      'rest',
+    ]);
+  });
+
+  it('ignores a stored list once the override is turned off', () => {
+    expect(bannedCommandsFor({ overrideBannedCommands: false, bannedCommands: 'delete' })).toEqual(
+      GUARDRAIL_PRESETS.standard
+    );
+  });
+
+  it('keeps a list saved before presets existed', () => {
+    expect(bannedCommandsFor({ bannedCommands: 'delete\ncollect' })).toEqual(['delete', 'collect']);
+  });
+
+  it('bans nothing when dangerous commands are allowed', () => {
+    expect(
+      bannedCommandsFor({ allowDangerousCommands: true, overrideBannedCommands: true, bannedCommands: 'x' })
+    ).toEqual([]);
+  });
+});
+
+describe('banned commands', () => {
+  it('rejects a banned command in any stage', () => {
+    const v = check('index=web | delete');
+    expect(v).toMatchObject({ dangerous: true, message: 'Command "delete" in stage 2 is blocked by guardrails.' });
+    expect(v?.stage?.command).toBe('delete');
+  });
+
+  it('rejects a banned command in a subsearch', () => {
+    expect(check('index=web [ search index=db | outputlookup x ]')?.message).toBe(
+      'Command "outputlookup" in stage 2 of the subsearch in stage 1 is blocked by guardrails.'
+    );
+  });
+
+  it('rejects a banned generating command', () => {
+    expect(check('| rest /services/server/info')?.dangerous).toBe(true);
+  });
+
+  it('matches whole command names only', () => {
+    expect(check('index=web | delete_count')).toBeNull();
+    expect(check('index=web | eval x=1 | collected')).toBeNull();
+    expect(check('index=web msg="| delete"')).toBeNull();
+  });
+
+  it('matches fragments spanning arguments', () => {
+    expect(check('index=web | map [search index=db]')?.stage?.command).toBe('map');
+    expect(check('index=web | map search="search index=db"')).toBeNull();
+  });
+
+  it('matches an invalid fragment literally', () => {
+    const matcher = compileCommandMatcher(['bad[']);
+    expect(matcher?.test('bad[ x')).toBe(true);
+    expect(matcher?.test('bad x')).toBe(false);
+  });
+
+  it('reports invalid fragments by line', () => {
+    expect(validateBannedCommands('delete\n\nbad[')).toEqual(['Line 3: "bad[" is not a valid regular expression']);
+  });
+
+  it('rejects an empty query as not dangerous', () => {
+    expect(check('  ')).toEqual({ message: 'Query is empty.', dangerous: false });
+  });
+});
+
+describe('indexTerms', () => {
+  it('reads every index term form', () => {
+    expect(indexTerms('index=web index="db" index::Main index IN (a, "b")')).toEqual(['web', 'db', 'main', 'a', 'b']);
+  });
+
+  it('skips quoted literals, field names ending in index, and subsearches', () => {
+    expect(indexTerms('msg="index=secret" myindex=x [ search index=db ] index=web')).toEqual(['web']);
+  });
+
+  it('skips negated terms', () => {
+    expect(indexTerms('NOT index=main index!=db index=web')).toEqual(['web']);
+    expect(indexTerms('NOT (index=a OR (index=b)) index IN (c)')).toEqual(['c']);
+    expect(indexTerms('NOT index IN (a, b) msg="NOT (" index=web')).toEqual(['web']);
+  });
+
+  it('reads terms after a lower-case not, which Splunk searches for as a word', () => {
+    expect(indexTerms('not index=secret')).toEqual(['secret']);
+  });
+});
+
+describe('index scope', () => {
+  const scoped: SplunkDataSourceOptions = { allowedIndexes: 'web\napp_*' };
+
+  it('allows indexes in the allowlist, wildcard patterns included', () => {
+    expect(check('index=web OR index=app_prod | stats count', scoped)).toBeNull();
+    expect(check('index=app_* | stats count', scoped)).toBeNull();
+  });
+
+  it('rejects other indexes, in any index-scanning stage', () => {
+    expect(check('index=secret', scoped)?.message).toBe('Index "secret" in stage 1 is not in the allowed index list.');
+    expect(check('| tstats count where index=secret', scoped)?.dangerous).toBe(true);
+    expect(check('index=web [ search index=secret ]', scoped)?.dangerous).toBe(true);
+  });
+
+  it.each([
+    ['metasearch', '| metasearch index=secret'],
+    ['walklex', '| walklex index=secret type=term'],
+    ['mcatalog', '| mcatalog values(metric_name) where index=secret'],
+    ['typeahead', '| typeahead prefix=a count=10 index=secret'],
+    ['dbinspect', '| dbinspect index=secret'],
+  ])('checks the indexes %s reads', (command, spl) => {
+    const opts = { ...scoped, requireIndex: true };
+    expect(check(spl, opts)?.message).toBe('Index "secret" in stage 1 is not in the allowed index list.');
+    expect(check(`search index=web | append [${spl}]`, opts)?.stage?.command).toBe(command);
+    expect(check(`| ${command}`, opts)?.message).toMatch(/does not name an index/);
+  });
+
+  it('rejects a wildcard not covered by a pattern', () => {
+    expect(check('index=*', scoped)?.dangerous).toBe(true);
+    expect(check('index=ap*', scoped)?.dangerous).toBe(true);
+  });
+
+  it('leaves variables to be checked after interpolation', () => {
+    expect(check('index=$idx', scoped)).toBeNull();
+  });
+
+  it('only reads index terms of searches that start a pipeline', () => {
+    expect(check('index=web | search index=secret', scoped)).toBeNull();
+  });
+
+  it('rejects commands that read indexes indirectly', () => {
+    for (const spl of [
+      '| savedsearch "All errors"',
+      '| from datamodel:Network_Traffic',
+      '| from savedsearch:errors',
+      '| datamodel Network_Traffic search',
+      '| tstats count from datamodel=Web by host',
+      '| tstats count FROM datamodel:Web where nodename=Web.errors',
+      '| pivot Network_Traffic All count(All) AS count',
+      '| loadjob savedsearch="admin:search:errors"',
+      'index=web | map search="search index=secret host=$host$"',
+      'index=web [ | savedsearch errors ]',
+    ]) {
+      expect(check(spl, { ...scoped, allowDangerousCommands: true })?.message).toMatch(
+        /reads indexes that can't be checked/
+      );
+    }
+  });
+
+  it('requires an index term while an allowlist is set', () => {
+    expect(check('search sourcetype=x', scoped)?.message).toMatch(/does not name an index/);
+    expect(check('| tstats count where sourcetype=x by host', scoped)?.message).toMatch(/does not name an index/);
+    expect(check('| tstats count where index=web by host', scoped)).toBeNull();
+  });
+
+  it('allows lookups read with from', () => {
+    expect(check('| from lookup:hosts', scoped)).toBeNull();
+    expect(check('| from inputlookup:hosts.csv', scoped)).toBeNull();
+  });
+
+  it('allows indirect commands when no scope is set', () => {
+    expect(check('| from datamodel:Network_Traffic')).toBeNull();
+  });
+
+  it('requires an explicit index when configured', () => {
+    const opts = { requireIndex: true };
+    expect(check('error | stats count', opts)?.message).toBe(
+      'The search in stage 1 does not name an index; this datasource requires an explicit index=.'
+    );
+    expect(check('index=* error', opts)?.message).toBe(
+      'index=* in stage 1 is not allowed; name the indexes to search.'
+    );
+    expect(check('| savedsearch errors', opts)?.dangerous).toBe(true);
+    expect(check('search NOT index=main', opts)?.message).toMatch(/does not name an index/);
+    expect(check('index!=main', opts)?.message).toMatch(/does not name an index/);
+    expect(check('index=web error', opts)).toBeNull();
+    expect(check('| makeresults | eval x=1', opts)).toBeNull();
+  });
+
+  it('compiles no allowlist without patterns', () => {
+    expect(compileIndexAllowlist([' ', ''])).toBeNull();
+  });
+});
+
+describe('checkTimeRange', () => {
+  const to = dateTime('2026-01-02T00:00:00Z');
+  const rangeOf = (hours: number): TimeRange => {
+    const from = dateTime(to.valueOf() - hours * 3600 * 1000);
+    return { from, to, raw: { from: `now-${hours}h`, to: 'now' } };
+  };
+
+  it('passes a range within the cap', () => {
+    const range = rangeOf(24);
+    expect(checkTimeRange(range, resolvePolicy({}))).toEqual({ range });
+  });
+
+  it('rejects a range over the cap', () => {
+    expect(checkTimeRange(rangeOf(25), resolvePolicy({}))).toEqual({
+      error: 'Time range (90000s) exceeds the configured cap (86400s).',
+    });
+  });
+
+  it('clamps a range over the cap to the most recent part', () => {
+    const res = checkTimeRange(rangeOf(48), resolvePolicy({ clampTimeRange: true, maxRangeSeconds: 3600 }));
+    expect(res.range?.from.valueOf()).toBe(to.valueOf() - 3600 * 1000);
+    expect(res.range?.to).toBe(to);
+    expect('notice' in res && res.notice).toBe('Time range (172800s) was clamped to the configured cap (3600s).');
+  });
+
+  it('applies no cap with safe mode off', () => {
+    expect(checkTimeRange(rangeOf(1000), resolvePolicy({ safeMode: false })).range).toBeDefined();
+  });
+});
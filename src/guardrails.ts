@@ -0,0 +1,345 @@
+import { dateTime, TimeRange } from '@grafana/data';
+import { describeStage, parseSPL, SplStage, withoutSubsearches } from './spl';
+import type { GuardrailPreset, SplunkDataSourceOptions } from './types';
+
+/**
+ * The guardrail policy shared by the datasource (query + variables) and the
+ * editors, resolved from the datasource options so every check uses the same
+ * banned-command list and limits.
+ */
+
+// ---------- Presets ----------
+// Commands with side effects on Splunk or beyond it; blocked by every preset
+const SIDE_EFFECTS = [
+  'delete',
+  'outputlookup',
+  'collect',
+  'mcollect',
+  'sendemail',
+  'sendalert',
+  'runshellscript',
+  'script',
+];
+
+export const GUARDRAIL_PRESETS: Record<GuardrailPreset, string[]> = {
+  permissive: SIDE_EFFECTS,
+  standard: [...SIDE_EFFECTS, 'rest', 'loadjob', 'map\\s+\\['],
+  strict: [
+    ...SIDE_EFFECTS,
+    'rest',
+    'loadjob',
+    'map',
+    'outputcsv',
+    'outputtext',
+    'tscollect',
+    'meventcollect',
+    'summaryindex',
+    'dump',
+    'run',
+    'dbxquery',
+    'dbxoutput',
+    'savedsearch',
+  ],
+};
+
+export const DEFAULT_PRESET: GuardrailPreset = 'standard';
+export const DEFAULT_BANNED_COMMANDS = GUARDRAIL_PRESETS[DEFAULT_PRESET];
+export const DEFAULT_MAX_RANGE_SECONDS = 24 * 60 * 60;
+
+// ---------- Policy ----------
+export interface GuardrailPolicy {
+  /** Matches a banned command at the start of a stage; null when nothing is banned */
+  bannedMatcher: RegExp | null;
+  /** Longest allowed time range; null when safe mode is off */
+  maxRangeSeconds: number | null;
+  /** Shorten an over-long range to the cap instead of rejecting the query */
+  clampRange: boolean;
+  /** Allowed index patterns as configured; the default scope of generated searches */
+  allowedIndexes: string[];
+  /** Matches the index names searches may read; null when any index is allowed */
+  indexAllowlist: RegExp | null;
+  /** Index-scanning stages must name their indexes, and not as `index=*` */
+  requireIndex: boolean;
+}
+
+function splitLines(text: string | undefined): string[] {
+  return (text ?? '')
+    .split('\n')
+    .map((s) => s.trim())
+    .filter(Boolean);
+}
+
+/**
+ * Whether the custom banned list is in effect. Datasources saved before presets
+ * existed have a list but no flag; their list keeps applying.
+ */
+export function isBannedListOverridden(opts: SplunkDataSourceOptions): boolean {
+  return opts.overrideBannedCommands ?? splitLines(opts.bannedCommands).length > 0;
+}
+
+/** The banned-command fragments in effect: the custom list when overridden, else the preset's. */
+export function bannedCommandsFor(opts: SplunkDataSourceOptions): string[] {
+  if (opts.allowDangerousCommands) {
+    return [];
+  }
+  if (isBannedListOverridden(opts)) {
+    return splitLines(opts.bannedCommands);
+  }
+  return GUARDRAIL_PRESETS[opts.guardrailPreset ?? DEFAULT_PRESET] ?? DEFAULT_BANNED_COMMANDS;
+}
+
+export function resolvePolicy(opts: SplunkDataSourceOptions | undefined): GuardrailPolicy {
+  const o = opts ?? {};
+  return {
+    bannedMatcher: compileCommandMatcher(bannedCommandsFor(o)),
+    maxRangeSeconds: o.safeMode ?? true ? o.maxRangeSeconds ?? DEFAULT_MAX_RANGE_SECONDS : null,
+    clampRange: !!o.clampTimeRange,
+    allowedIndexes: splitLines(o.allowedIndexes),
+    indexAllowlist: compileIndexAllowlist(splitLines(o.allowedIndexes)),
+    requireIndex: !!o.requireIndex,
+  };
+}
+
+// ---------- Banned commands ----------
+function isValidFragment(fragment: string): boolean {
+  try {
+    new RegExp(fragment);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/** One message per line of the banned list that is not a valid regex fragment. */
+export function validateBannedCommands(text: string | undefined): string[] {
+  return (text ?? '')
+    .split('\n')
+    .map((line, i) => ({ line: line.trim(), n: i + 1 }))
+    .filter(({ line }) => line && !isValidFragment(line))
+    .map(({ line, n }) => `Line ${n}: "${line}" is not a valid regular expression`);
+}
+
+/**
+ * Compiles banned-command fragments (e.g. `outputlookup` or `map\s+\[`) into
+ * one matcher anchored at the start of a stage. A fragment that is not a valid
+ * regex is matched literally rather than failing every query.
+ */
+export function compileCommandMatcher(patterns: string[]): RegExp | null {
+  const parts = patterns
+    .map((p) => p.trim())
+    .filter(Boolean)
+    .map((p) => (isValidFragment(p) ? p : p.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')));
+  if (!parts.length) {
+    return null;
+  }
+  // Ends on a word boundary: `delete` must not match `delete_count`, while `map\s+\[` may be followed by anything
+  return new RegExp(`^(?:${parts.join('|')})(?:(?<![\\w-])|(?![\\w-]))`, 'i');
+}
+
+/** First stage whose command matches the banned-command matcher. */
+export function findBannedStage(spl: string, matcher: RegExp | null): SplStage | null {
+  if (!matcher) {
+    return null;
+  }
+  return parseSPL(spl).find((s) => s.command && matcher.test(`${s.command} ${s.args}`)) ?? null;
+}
+
+// ---------- Index scope ----------
+// Commands that read from indexes wherever they appear; `search` only does when it starts a pipeline
+const INDEX_SCANNING = new Set([
+  'tstats',
+  'mstats',
+  'mpreview',
+  'msearch',
+  'mcatalog',
+  'metadata',
+  'metasearch',
+  'eventcount',
+  'dbinspect',
+  'walklex',
+  'typeahead',
+]);
+
+// Commands that read indexed data through something else (a saved search, a data model, a finished
+// job, a search built at run time), so no index term shows what they read
+const INDIRECT_SOURCES = new Set(['savedsearch', 'datamodel', 'pivot', 'loadjob', 'map']);
+
+// `from` reads a dataset: lookups are fine, saved searches and data models are indirect sources
+const FROM_LOOKUP = /^\s*(?:lookup|inputlookup):/i;
+
+// tstats and mstats read a data model's summaries, not an index, with `from datamodel=`
+const STATS_FROM_DATAMODEL = /(?<![\w.-])from\s+datamodel\s*[=:]/i;
+
+// index=web, index="web", index::web and index IN (web, "db"). Quoted strings are matched
+// first so that a literal like "index=web" is skipped rather than read as a term
+const INDEX_TERM =
+  /"(?:[^"\\]|\\.)*"|(?<![\w.-])index\s*(?:=|::)\s*("(?:[^"\\]|\\.)*"|[^\s()\]]+)|(?<![\w.-])index\s+in\s*\(([^)]*)\)/gi;
+
+// Negation, which makes a term exclude its indexes rather than name them (`index!=web` is no
+// term at all). Upper case only, like Splunk's boolean operators; quoted strings are skipped
+const NOT_BEFORE = /(?<![\w.-])NOT\s+$/;
+const NOT_GROUP = /"(?:[^"\\]|\\.)*"|(?<![\w.-])NOT\s*\(/g;
+
+function unquote(v: string): string {
+  const t = v.trim();
+  return (t.length > 1 && t.startsWith('"') && t.endsWith('"') ? t.slice(1, -1) : t).toLowerCase();
+}
+
+/** Spans of the `NOT ( ... )` groups in `text`. */
+function negatedGroups(text: string): Array<{ start: number; end: number }> {
+  const groups: Array<{ start: number; end: number }> = [];
+  for (const m of text.matchAll(NOT_GROUP)) {
+    if (m[0].startsWith('"')) {
+      continue;
+    }
+    let depth = 1;
+    let i = m.index! + m[0].length;
+    for (; i < text.length && depth > 0; i++) {
+      if (text[i] === '"') {
+        for (i++; i < text.length && text[i] !== '"'; i++) {
+          if (text[i] === '\\') {
+            i++;
+          }
+        }
+      } else if (text[i] === '(') {
+        depth++;
+      } else if (text[i] === ')') {
+        depth--;
+      }
+    }
+    groups.push({ start: m.index!, end: i });
+  }
+  return groups;
+}
+
+/**
+ * Index names (or wildcard patterns) named in a stage's own arguments. Subsearches
+ * and negated terms (`NOT index=web`, `NOT (index=a OR index=b)`) are excluded.
+ */
+export function indexTerms(args: string): string[] {
+  const text = withoutSubsearches(args);
+  const negated = negatedGroups(text);
+  const terms: string[] = [];
+  for (const m of text.matchAll(INDEX_TERM)) {
+    const at = m.index!;
+    if (NOT_BEFORE.test(text.slice(0, at)) || negated.some((g) => at > g.start && at < g.end)) {
+      continue;
+    }
+    if (m[1]) {
+      terms.push(unquote(m[1]));
+    } else if (m[2]) {
+      const list = m[2].split(/[\s,]+/).filter(Boolean);
+      terms.push(...list.map(unquote));
+    }
+  }
+  return terms;
+}
+
+function isIndexScanning(stage: SplStage): boolean {
+  return (stage.command === 'search' && stage.index === 1) || INDEX_SCANNING.has(stage.command);
+}
+
+function readsIndirectly(stage: SplStage): boolean {
+  if (stage.command === 'from') {
+    return !FROM_LOOKUP.test(stage.args);
+  }
+  if (stage.command === 'tstats' || stage.command === 'mstats') {
+    return STATS_FROM_DATAMODEL.test(withoutSubsearches(stage.args));
+  }
+  return INDIRECT_SOURCES.has(stage.command);
+}
+
+/**
+ * Compiles allowed index patterns (`*` is a wildcard) into one matcher. A term
+ * that is itself a wildcard, e.g. `web_*`, passes only if a pattern covers
+ * every index it could expand to.
+ */
+export function compileIndexAllowlist(patterns: string[]): RegExp | null {
+  const parts = patterns
+    .map((p) => p.trim())
+    .filter(Boolean)
+    .map((p) => p.replace(/[.+?^${}()|[\]\\]/g, '\\$&').replace(/\*/g, '.*'));
+  return parts.length ? new RegExp(`^(?:${parts.join('|')})$`, 'i') : null;
+}
+
+function checkIndexScope(stages: SplStage[], policy: GuardrailPolicy): GuardrailViolation | null {
+  const allowlist = policy.indexAllowlist;
+  if (!allowlist && !policy.requireIndex) {
+    return null;
+  }
+  for (const stage of stages) {
+    const where = describeStage(stage);
+    const violation = (message: string) => ({ message, dangerous: true, stage });
+    // Their indexes can't be checked, so they are only allowed while any index is
+    if (readsIndirectly(stage)) {
+      return violation(
+        `Command "${stage.command}" in ${where} reads indexes that can't be checked against this datasource's index scope.`
+      );
+    }
+    if (!isIndexScanning(stage)) {
+      continue;
+    }
+    const terms = indexTerms(stage.args);
+    // A stage naming no index reads the role's default indexes, which the allowlist can't see
+    if ((policy.requireIndex || allowlist) && !terms.length) {
+      return violation(`The search in ${where} does not name an index; this datasource requires an explicit index=.`);
+    }
+    if (policy.requireIndex && terms.some((t) => /^\*+$/.test(t))) {
+      return violation(`index=* in ${where} is not allowed; name the indexes to search.`);
+    }
+    // Editors check SPL before interpolation; a $variable is checked once query() has resolved it
+    const denied = allowlist && terms.find((t) => !t.includes('$') && !allowlist.test(t));
+    if (denied) {
+      return violation(`Index "${denied}" in ${where} is not in the allowed index list.`);
+    }
+  }
+  return null;
+}
+
+// ---------- Checks ----------
+export interface GuardrailViolation {
+  message: string;
+  /** True for a blocked command or index; false for e.g. an empty query */
+  dangerous: boolean;
+  /** The offending stage, for editors to mark its text */
+  stage?: SplStage;
+}
+
+export function checkQuery(spl: string | undefined, policy: GuardrailPolicy): GuardrailViolation | null {
+  // Parsed untrimmed so stage offsets match the editor text
+  const text = spl ?? '';
+  if (!text.trim()) {
+    return { message: 'Query is empty.', dangerous: false };
+  }
+  const stage = findBannedStage(text, policy.bannedMatcher);
+  if (stage) {
+    return {
+      message: `Command "${stage.command}" in ${describeStage(stage)} is blocked by guardrails.`,
+      dangerous: true,
+      stage,
+    };
+  }
+  return checkIndexScope(parseSPL(text), policy);
+}
+
+export type TimeRangeCheck = { range: TimeRange; notice?: string } | { range?: undefined; error: string };
+
+/**
+ * Applies the time range cap. An over-long range is either rejected or, with
+ * `clampRange`, shortened to the most recent `maxRangeSeconds`.
+ */
+export function checkTimeRange(range: TimeRange, policy: GuardrailPolicy): TimeRangeCheck {
+  const max = policy.maxRangeSeconds;
+  const rangeSec = Math.ceil((range.to.valueOf() - range.from.valueOf()) / 1000);
+  if (max == null || max <= 0 || rangeSec <= max) {
+    return { range };
+  }
+  if (!policy.clampRange) {
+    return { error: `Time range (${rangeSec}s) exceeds the configured cap (${max}s).` };
+  }
+  const from = dateTime(range.to.valueOf() - max * 1000);
+  return {
+    range: { from, to: range.to, raw: { from, to: range.raw.to } },
+    notice: `Time range (${rangeSec}s) was clamped to the configured cap (${max}s).`,
+  };
+}
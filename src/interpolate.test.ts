@@ -0,0 +1,95 @@
+import { ScopedVars } from '@grafana/data';
+import { formatVariableValue, interpolateSPL } from './interpolate';
+
+// Dashboard variables: name → current value, plus an optional custom all value
+const mockDashboard: Record<string, { value: string | string[]; allValue?: string }> = {};
+
+// Enough of Grafana's template service for `$var` and `${var}`: scoped vars first, then dashboard variables
+jest.mock('@grafana/runtime', () => ({
+  getTemplateSrv: () => ({
+    getVariables: () =>
+      Object.entries(mockDashboard).map(([name, v]) => ({ name, current: { value: v.value }, allValue: v.allValue })),
+    replace: (text: string, scopedVars: ScopedVars, format: (value: string | string[], variable: any) => string) =>
+      text.replace(/\$(?:\{(\w+)\}|(\w+))/g, (token, braced?: string, bare?: string) => {
+        const name = (braced ?? bare)!;
+        const value = scopedVars[name]?.value ?? mockDashboard[name]?.value;
+        return value === undefined ? token : format(value, { name });
+      }),
+  }),
+}));
+
+beforeEach(() => {
+  for (const name of Object.keys(mockDashboard)) {
+    delete mockDashboard[name];
+  }
+});
+
+describe('formatVariableValue', () => {
+  it('escapes a single value without quoting it', () => {
+    expect(formatVariableValue('a"b')).toBe('a\\"b');
+  });
+
+  it('ORs quoted values', () => {
+    expect(formatVariableValue(['a', 'b"c'])).toBe('("a" OR "b\\"c")');
+    expect(formatVariableValue(['a'])).toBe('"a"');
+  });
+
+  it('regex-escapes, then escapes for the quoted string', () => {
+    expect(formatVariableValue('a.b', 'regex')).toBe('a\\\\.b');
+    expect(formatVariableValue(['DOMAIN\\user', 'a"b.c'], 'regex')).toBe('(DOMAIN\\\\\\\\user|a\\"b\\\\.c)');
+  });
+
+  it('quotes csv values only when needed', () => {
+    expect(formatVariableValue(['web', 'app_*', 'a b'], 'csv')).toBe('web,app_*,"a b"');
+  });
+
+  it('passes raw values through', () => {
+    expect(formatVariableValue(['a"', 'b'], 'raw')).toBe('a",b');
+  });
+
+  it('quotes every value for doublequote and splunkin', () => {
+    expect(formatVariableValue(['a', 'b'], 'doublequote')).toBe('"a","b"');
+    expect(formatVariableValue(['a', 'b'], 'splunkin')).toBe('("a","b")');
+  });
+});
+
+describe('interpolateSPL', () => {
+  it('formats scoped variables', () => {
+    const scoped: ScopedVars = { host: { text: 'h', value: ['a', 'b'] } };
+    expect(interpolateSPL('index=web host=$host', scoped)).toBe('index=web host=("a" OR "b")');
+    expect(interpolateSPL('host IN ${host:splunkin}', scoped)).toBe('host IN ("a","b")');
+  });
+
+  it('does not interpolate a formatted value a second time', () => {
+    mockDashboard.msg = { value: '$other' };
+    mockDashboard.other = { value: 'x' };
+    expect(interpolateSPL('msg="${msg:raw}" other=$other')).toBe('msg="$other" other=x');
+  });
+
+  it('leaves unknown variables and formats as typed', () => {
+    expect(interpolateSPL('a=${nope:csv} b=${nope}')).toBe('a=${nope:csv} b=${nope}');
+  });
+
+  it('turns All into a wildcard in the format', () => {
+    mockDashboard.host = { value: ['$__all'] };
+    expect(interpolateSPL('host=$host')).toBe('host=*');
+    expect(interpolateSPL('regex host="${host:regex}"')).toBe('regex host=".*"');
+    expect(interpolateSPL('host IN ${host:splunkin}')).toBe('host IN ("*")');
+  });
+
+  it('uses a custom all value as is', () => {
+    mockDashboard.idx = { value: '$__all', allValue: 'web OR db' };
+    expect(interpolateSPL('index IN (${idx:csv})')).toBe('index IN (web OR db)');
+  });
+
+  it('fills in the built-in macros', () => {
+    const macros = { from: 1_000_500, to: 2_000_500, intervalMs: 7_200_000, maxRows: 500 };
+    expect(
+      interpolateSPL(
+        'timechart span=$__span | where _time>=$__earliest AND _time<=$__latest | head $__maxRows',
+        {},
+        macros
+      )
+    ).toBe('timechart span=2h | where _time>=1000 AND _time<=2001 | head 500');
+  });
+});
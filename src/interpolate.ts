@@ -0,0 +1,180 @@
+import { ScopedVars, TypedVariableModel } from '@grafana/data';
+import { getTemplateSrv } from '@grafana/runtime';
+import { escapeSplunkValue } from './spl';
+import { BARE_VALUE, quoted } from './variables';
+
+/**
+ * Grafana variable interpolation with SPL escaping.
+ *
+ * `$var` and `${var}`:
+ * - single value: escaped, no quotes added, so `host="$device*"` becomes `host="sr-zw-1a02-1*"`
+ * - multi value: `("v1" OR "v2")`
+ *
+ * Format specifiers handled here rather than by Grafana, e.g. `${var:splunkin}`:
+ * - regex: regex-escaped and escaped for a quoted string, `(v1|v2)` for several values, for `regex` / `rex` / `match()`
+ * - csv: `v1,v2`, values quoted when they contain anything but name characters
+ * - raw: `v1,v2` as is, no escaping
+ * - doublequote: `"v1","v2"`
+ * - splunkin: `("v1","v2")`, for `field IN ${var:splunkin}`
+ *
+ * A variable set to "All" becomes `*` (`.*` with regex, quoted in the quoting
+ * formats) unless it has a custom all value, which is used as is. Other
+ * specifiers (`text`, `pipe`, ...) are left to Grafana.
+ *
+ * Built-in macros describe the search itself, see TimeMacros.
+ */
+
+// ---------- Built-in macros ----------
+export interface TimeMacros {
+  /** The search window (earliest_time / latest_time), epoch ms */
+  from: number;
+  to: number;
+  /** The panel's interval between points */
+  intervalMs: number;
+  maxRows: number;
+}
+
+/** Macro names, as offered by the editor's autocompletion */
+export const MACRO_NAMES = ['__span', '__earliest', '__latest', '__maxRows'];
+
+const SPAN_UNITS: Array<[string, number]> = [
+  ['d', 86400],
+  ['h', 3600],
+  ['m', 60],
+];
+
+/** An interval as a Splunk span in its largest whole unit, at least 1s: 90000 → 90s, 7200000 → 2h. */
+function toSplunkSpan(intervalMs: number): string {
+  const sec = Math.max(1, Math.ceil(intervalMs / 1000));
+  const unit = SPAN_UNITS.find(([, n]) => sec % n === 0);
+  return unit ? `${sec / unit[1]}${unit[0]}` : `${sec}s`;
+}
+
+/**
+ * - `$__span`: the panel interval as a span, e.g. `timechart span=$__span count`
+ * - `$__earliest` / `$__latest`: the search window in epoch seconds
+ * - `$__maxRows`: the datasource's row limit, e.g. `head $__maxRows`
+ */
+function macroVars(m: TimeMacros): ScopedVars {
+  const v = (value: string | number) => ({ text: String(value), value: String(value) });
+  return {
+    __span: v(toSplunkSpan(m.intervalMs)),
+    __earliest: v(Math.floor(m.from / 1000)),
+    __latest: v(Math.ceil(m.to / 1000)),
+    __maxRows: v(m.maxRows),
+  };
+}
+
+// ---------- Variables ----------
+export type SplunkVariableFormat = 'regex' | 'csv' | 'raw' | 'doublequote' | 'splunkin';
+
+const FORMATS = new Set<string>(['regex', 'csv', 'raw', 'doublequote', 'splunkin']);
+
+// ${name:format}
+const FORMAT_TOKEN = /\$\{(\w+):(\w+)\}/g;
+
+const ALL_VALUE = '$__all';
+
+const REGEX_SPECIAL = /[.*+?^${}()|[\]\\]/g;
+
+function quote(v: string): string {
+  return `"${escapeSplunkValue(v)}"`;
+}
+
+/** `values` in one of the formats above; `format` undefined is the default `$var` rendering. */
+export function formatVariableValue(value: string | string[], format?: SplunkVariableFormat): string {
+  const values = (Array.isArray(value) ? value : [value]).map(String);
+  switch (format) {
+    case 'regex': {
+      // Regex-escaped, then escaped again for the quoted SPL string, which drops one level of backslashes
+      const parts = values.map((v) => escapeSplunkValue(v.replace(REGEX_SPECIAL, '\\$&')));
+      return parts.length > 1 ? `(${parts.join('|')})` : parts.join('');
+    }
+    case 'csv':
+      return values.map((v) => quoted(v, BARE_VALUE)).join(',');
+    case 'raw':
+      return values.join(',');
+    case 'doublequote':
+      return values.map(quote).join(',');
+    case 'splunkin':
+      return `(${values.map(quote).join(',')})`;
+    default:
+      if (!Array.isArray(value)) {
+        return escapeSplunkValue(value);
+      }
+      return values.length > 1 ? `(${values.map(quote).join(' OR ')})` : values.map(quote).join('');
+  }
+}
+
+/** What "All" becomes in each format when the variable has no custom all value. */
+function formatAll(format?: SplunkVariableFormat): string {
+  switch (format) {
+    case 'regex':
+      return '.*';
+    case 'doublequote':
+      return '"*"';
+    case 'splunkin':
+      return '("*")';
+    default:
+      return '*';
+  }
+}
+
+const isAll = (value: unknown) => value === ALL_VALUE || (Array.isArray(value) && value.includes(ALL_VALUE));
+
+/** The value "All" stands for when `name` is set to it: the custom all value, or '' for the format's own. */
+function allValueOf(name: string, scopedVars: ScopedVars): string | undefined {
+  const scoped = scopedVars[name];
+  if (scoped) {
+    return isAll(scoped.value) ? '' : undefined;
+  }
+  const variable: TypedVariableModel | undefined = getTemplateSrv()
+    .getVariables()
+    .find((v) => v.name === name);
+  if (!variable || !('current' in variable) || !isAll(variable.current?.value)) {
+    return undefined;
+  }
+  return ('allValue' in variable && variable.allValue) || '';
+}
+
+export function interpolateSPL(text: string, scopedVarsIn: ScopedVars = {}, macros?: TimeMacros): string {
+  const ts = getTemplateSrv();
+  const scopedVars = macros ? { ...scopedVarsIn, ...macroVars(macros) } : scopedVarsIn;
+
+  // Format specifiers first, into placeholders, so values are never interpolated a second time
+  const formatted: string[] = [];
+  const withPlaceholders = text.replace(FORMAT_TOKEN, (token, name: string, format: string) => {
+    if (!FORMATS.has(format)) {
+      return token;
+    }
+    const fmt = format as SplunkVariableFormat;
+    let out = allValueOf(name, scopedVars);
+    if (out === '') {
+      out = formatAll(fmt);
+    } else if (out === undefined) {
+      let value: string | string[] | undefined;
+      ts.replace(`\${${name}}`, scopedVars, (v: string | string[]) => {
+        value = v;
+        return '';
+      });
+      if (value === undefined) {
+        return token; // not a variable; left as typed, like Grafana does
+      }
+      out = formatVariableValue(value ?? '', fmt);
+    }
+    formatted.push(out);
+    return `\u0000${formatted.length - 1}\u0000`;
+  });
+
+  const replaced = ts.replace(withPlaceholders, scopedVars, (value: string | string[] | null, variable: any) => {
+    if (value == null) {
+      return '';
+    }
+    // A custom all value never reaches the formatter
+    if (variable?.name && allValueOf(variable.name, scopedVars) === '') {
+      return formatAll();
+    }
+    return formatVariableValue(value);
+  });
+  return replaced.replace(/\u0000(\d+)\u0000/g, (_, i) => formatted[Number(i)]);
+}
@@ -0,0 +1,273 @@
+import type { Monaco, monacoTypes } from '@grafana/ui';
+import { MACRO_NAMES } from './interpolate';
+import { parseSPL } from './spl';
+
+/**
+ * SPL support for the Monaco code editor: a Monarch tokenizer for highlighting
+ * and a completion provider for commands, eval functions, dashboard variables
+ * and field names.
+ */
+
+export const SPL_LANGUAGE_ID = 'splunk-spl';
+
+// ---------- Vocabulary ----------
+type Word = { name: string; detail: string };
+
+export const SPL_COMMANDS: Word[] = [
+  { name: 'search', detail: 'Filter events with search terms' },
+  { name: 'where', detail: 'Keep results where an eval expression is true' },
+  { name: 'eval', detail: 'Compute fields from expressions' },
+  { name: 'stats', detail: 'Aggregate results, optionally split by fields' },
+  { name: 'eventstats', detail: 'Add aggregates to every event' },
+  { name: 'streamstats', detail: 'Running aggregates in event order' },
+  { name: 'chart', detail: 'Aggregate into a table for charting' },
+  { name: 'timechart', detail: 'Aggregate over _time into a time series' },
+  { name: 'tstats', detail: 'Aggregate indexed fields and data models' },
+  { name: 'mstats', detail: 'Aggregate metric indexes' },
+  { name: 'table', detail: 'Keep only the listed fields, in order' },
+  { name: 'fields', detail: 'Keep (or with -, remove) fields' },
+  { name: 'rename', detail: 'Rename fields' },
+  { name: 'sort', detail: 'Sort results by fields' },
+  { name: 'head', detail: 'First N results' },
+  { name: 'tail', detail: 'Last N results' },
+  { name: 'dedup', detail: 'Remove results with duplicate field values' },
+  { name: 'top', detail: 'Most common values of a field' },
+  { name: 'rare', detail: 'Least common values of a field' },
+  { name: 'rex', detail: 'Extract fields with a regular expression' },
+  { name: 'regex', detail: 'Keep results whose field matches a regular expression' },
+  { name: 'spath', detail: 'Extract fields from JSON or XML' },
+  { name: 'bin', detail: 'Group numeric or time values into buckets' },
+  { name: 'fillnull', detail: 'Replace null values' },
+  { name: 'lookup', detail: 'Enrich results from a lookup table' },
+  { name: 'inputlookup', detail: 'Read a lookup table' },
+  { name: 'join', detail: 'Join with the results of a subsearch' },
+  { name: 'append', detail: 'Append the results of a subsearch' },
+  { name: 'appendcols', detail: 'Append the columns of a subsearch' },
+  { name: 'transaction', detail: 'Group events into transactions' },
+  { name: 'mvexpand', detail: 'One result per value of a multi-value field' },
+  { name: 'makemv', detail: 'Split a field into a multi-value field' },
+  { name: 'makeresults', detail: 'Generate empty results' },
+  { name: 'addtotals', detail: 'Sum numeric fields' },
+  { name: 'fieldformat', detail: 'Format field values for display' },
+  { name: 'convert', detail: 'Convert field values, e.g. ctime()' },
+  { name: 'metadata', detail: 'Hosts, sources or sourcetypes of an index' },
+  { name: 'eventcount', detail: 'Number of events in indexes' },
+  { name: 'predict', detail: 'Forecast a time series' },
+  { name: 'trendline', detail: 'Moving averages' },
+  { name: 'iplocation', detail: 'Location fields from IP addresses' },
+  { name: 'geostats', detail: 'Aggregate for cluster maps' },
+];
+
+export const EVAL_FUNCTIONS: Word[] = [
+  { name: 'if', detail: 'if(condition, then, else)' },
+  { name: 'case', detail: 'case(condition1, value1, ...)' },
+  { name: 'coalesce', detail: 'coalesce(x, y, ...): first non-null value' },
+  { name: 'isnull', detail: 'isnull(x)' },
+  { name: 'isnotnull', detail: 'isnotnull(x)' },
+  { name: 'null', detail: 'null()' },
+  { name: 'nullif', detail: 'nullif(x, y)' },
+  { name: 'tostring', detail: 'tostring(x, format)' },
+  { name: 'tonumber', detail: 'tonumber(x, base)' },
+  { name: 'len', detail: 'len(str)' },
+  { name: 'lower', detail: 'lower(str)' },
+  { name: 'upper', detail: 'upper(str)' },
+  { name: 'substr', detail: 'substr(str, start, length)' },
+  { name: 'replace', detail: 'replace(str, regex, replacement)' },
+  { name: 'trim', detail: 'trim(str, chars)' },
+  { name: 'split', detail: 'split(str, delimiter)' },
+  { name: 'match', detail: 'match(str, regex)' },
+  { name: 'like', detail: 'like(str, pattern)' },
+  { name: 'searchmatch', detail: 'searchmatch(search terms)' },
+  { name: 'cidrmatch', detail: 'cidrmatch(cidr, ip)' },
+  { name: 'round', detail: 'round(x, digits)' },
+  { name: 'floor', detail: 'floor(x)' },
+  { name: 'ceiling', detail: 'ceiling(x)' },
+  { name: 'abs', detail: 'abs(x)' },
+  { name: 'pow', detail: 'pow(x, y)' },
+  { name: 'log', detail: 'log(x, base)' },
+  { name: 'sqrt', detail: 'sqrt(x)' },
+  { name: 'min', detail: 'min(x, ...)' },
+  { name: 'max', detail: 'max(x, ...)' },
+  { name: 'random', detail: 'random()' },
+  { name: 'now', detail: 'now(): search start time, epoch seconds' },
+  { name: 'time', detail: 'time(): wall-clock time, epoch seconds' },
+  { name: 'relative_time', detail: 'relative_time(time, "-1d@d")' },
+  { name: 'strftime', detail: 'strftime(time, format)' },
+  { name: 'strptime', detail: 'strptime(str, format)' },
+  { name: 'mvcount', detail: 'mvcount(mv)' },
+  { name: 'mvindex', detail: 'mvindex(mv, start, end)' },
+  { name: 'mvjoin', detail: 'mvjoin(mv, delimiter)' },
+  { name: 'mvfilter', detail: 'mvfilter(predicate)' },
+  { name: 'mvappend', detail: 'mvappend(x, ...)' },
+  { name: 'mvdedup', detail: 'mvdedup(mv)' },
+  { name: 'mvsort', detail: 'mvsort(mv)' },
+  { name: 'urldecode', detail: 'urldecode(url)' },
+  { name: 'md5', detail: 'md5(str)' },
+  { name: 'sha256', detail: 'sha256(str)' },
+  { name: 'typeof', detail: 'typeof(x)' },
+  { name: 'json_extract', detail: 'json_extract(json, path, ...)' },
+  { name: 'json_object', detail: 'json_object(key, value, ...)' },
+];
+
+// Commands whose arguments are eval expressions
+const EXPRESSION_COMMANDS = new Set(['eval', 'where', 'fieldformat']);
+
+const KEYWORDS = ['AND', 'OR', 'NOT', 'XOR', 'BY', 'AS', 'OVER', 'IN', 'OUTPUT', 'OUTPUTNEW', 'TRUE', 'FALSE'];
+
+// ---------- Highlighting ----------
+const MONARCH: monacoTypes.languages.IMonarchLanguage = {
+  ignoreCase: true,
+  keywords: KEYWORDS,
+  functions: EVAL_FUNCTIONS.map((f) => f.name),
+  tokenizer: {
+    root: [
+      // ``` comments ``` before `macros`
+      [/```/, 'comment', '@comment'],
+      [/`[^`]*`/, 'annotation'],
+      [/"/, 'string', '@string'],
+      // The command of each stage and subsearch
+      [/(\|)(\s*)([a-zA-Z_][\w-]*)/, ['delimiter', 'white', 'keyword']],
+      [/(\[)(\s*)([a-zA-Z_][\w-]*)/, ['@brackets', 'white', 'keyword']],
+      [/\$\w+\$|\$\{[^}]*\}|\$\w+/, 'variable'],
+      [/[a-zA-Z_][\w.]*(?=\s*\()/, { cases: { '@functions': 'type', '@default': 'identifier' } }],
+      [/[a-zA-Z_][\w.:-]*/, { cases: { '@keywords': 'keyword', '@default': 'identifier' } }],
+      [/\d+(\.\d+)?/, 'number'],
+      [/[()[\]]/, '@brackets'],
+      [/[=!<>]=?|[+\-*/%,]/, 'operator'],
+      [/\s+/, 'white'],
+    ],
+    comment: [
+      [/```/, 'comment', '@pop'],
+      [/[^`]+/, 'comment'],
+      [/`/, 'comment'],
+    ],
+    string: [
+      [/[^\\"]+/, 'string'],
+      [/\\./, 'string.escape'],
+      [/"/, 'string', '@pop'],
+    ],
+  },
+};
+
+/** Registers the language and its tokenizer; later calls are no-ops. */
+export function registerSplLanguage(monaco: Monaco) {
+  if (monaco.languages.getLanguages().some((l) => l.id === SPL_LANGUAGE_ID)) {
+    return;
+  }
+  monaco.languages.register({ id: SPL_LANGUAGE_ID });
+  monaco.languages.setMonarchTokensProvider(SPL_LANGUAGE_ID, MONARCH);
+  monaco.languages.setLanguageConfiguration(SPL_LANGUAGE_ID, {
+    brackets: [
+      ['(', ')'],
+      ['[', ']'],
+    ],
+    autoClosingPairs: [
+      { open: '(', close: ')' },
+      { open: '[', close: ']' },
+      { open: '"', close: '"', notIn: ['string'] },
+    ],
+  });
+}
+
+// ---------- Completion ----------
+export interface SplCompletionSources {
+  /** Dashboard variable names, without `$` */
+  variables: () => string[];
+  /** Field names for the search being edited; may reject */
+  fieldNames: (spl: string) => Promise<string[]>;
+}
+
+/** Command of the innermost stage that runs up to the end of `text`. */
+function stageCommandAt(text: string): string | undefined {
+  const end = text.trimEnd().length;
+  const open = parseSPL(text).filter((s) => s.end === end);
+  return open.sort((a, b) => b.start - a.start)[0]?.command;
+}
+
+/**
+ * Completion for one editor's model (the provider is global to the language):
+ * - after `|` or `[`: commands
+ * - after `$`: dashboard variables and built-in macros
+ * - elsewhere: field names, plus eval functions inside eval / where / fieldformat
+ */
+export function registerSplCompletion(
+  monaco: Monaco,
+  model: monacoTypes.editor.ITextModel,
+  sources: SplCompletionSources
+): monacoTypes.IDisposable {
+  const { CompletionItemKind, CompletionItemInsertTextRule } = monaco.languages;
+
+  return monaco.languages.registerCompletionItemProvider(SPL_LANGUAGE_ID, {
+    triggerCharacters: ['|', '$', '('],
+    provideCompletionItems: async (current, position) => {
+      if (current.id !== model.id) {
+        return { suggestions: [] };
+      }
+      const before = current.getValueInRange({
+        startLineNumber: 1,
+        startColumn: 1,
+        endLineNumber: position.lineNumber,
+        endColumn: position.column,
+      });
+      const word = current.getWordUntilPosition(position);
+      const range = {
+        startLineNumber: position.lineNumber,
+        endLineNumber: position.lineNumber,
+        startColumn: word.startColumn,
+        endColumn: word.endColumn,
+      };
+
+      const variable = /\$\{?\w*$/.exec(before);
+      if (variable) {
+        const startColumn = position.column - variable[0].length;
+        const item = (name: string, detail: string) => ({
+          label: `$${name}`,
+          kind: CompletionItemKind.Variable,
+          detail,
+          insertText: `$${name}`,
+          range: { ...range, startColumn, endColumn: position.column },
+        });
+        return {
+          suggestions: [
+            ...sources.variables().map((name) => item(name, 'Dashboard variable')),
+            ...MACRO_NAMES.map((name) => item(name, 'Built-in macro')),
+          ],
+        };
+      }
+
+      if (/[|[]\s*[\w-]*$/.test(before)) {
+        return {
+          suggestions: SPL_COMMANDS.map((c) => ({
+            label: c.name,
+            kind: CompletionItemKind.Keyword,
+            detail: c.detail,
+            insertText: c.name,
+            range,
+          })),
+        };
+      }
+
+      const fields = await sources.fieldNames(current.getValue()).catch((): string[] => []);
+      const suggestions: monacoTypes.languages.CompletionItem[] = fields.map((f) => ({
+        label: f,
+        kind: CompletionItemKind.Field,
+        detail: 'Field',
+        insertText: f,
+        range,
+      }));
+      if (EXPRESSION_COMMANDS.has(stageCommandAt(before) ?? '')) {
+        suggestions.push(
+          ...EVAL_FUNCTIONS.map((f) => ({
+            label: f.name,
+            kind: CompletionItemKind.Function,
+            detail: f.detail,
+            insertText: `${f.name}($0)`,
+            insertTextRules: CompletionItemInsertTextRule.InsertAsSnippet,
+            range,
+          }))
+        );
+      }
+      return { suggestions };
+    },
+  });
+}
@@ -0,0 +1,76 @@
+import { ConcurrencyLimiter } from './limiter';
+
+const signal = () => new AbortController().signal;
+
+describe('ConcurrencyLimiter', () => {
+  it('grants slots up to the limit, then queues in order', async () => {
+    const limiter = new ConcurrencyLimiter(() => 2);
+    const releaseA = await limiter.acquire(signal());
+    await limiter.acquire(signal());
+
+    const granted: string[] = [];
+    const c = limiter.acquire(signal()).then((release) => {
+      granted.push('c');
+      return release;
+    });
+    const d = limiter.acquire(signal()).then(() => granted.push('d'));
+
+    releaseA();
+    const releaseC = await c;
+    expect(granted).toEqual(['c']);
+    releaseC();
+    await d;
+    expect(granted).toEqual(['c', 'd']);
+  });
+
+  it('reports queue positions as they change', async () => {
+    const limiter = new ConcurrencyLimiter(() => 1);
+    const release = await limiter.acquire(signal());
+    const first = jest.fn();
+    const second = jest.fn();
+    const granted = limiter.acquire(signal(), first);
+    limiter.acquire(signal(), second);
+    expect(first).toHaveBeenLastCalledWith(1);
+    expect(second).toHaveBeenLastCalledWith(2);
+
+    release();
+    await granted;
+    expect(second).toHaveBeenLastCalledWith(1);
+  });
+
+  it('drops an aborted waiter from the queue without a slot', async () => {
+    const limiter = new ConcurrencyLimiter(() => 1);
+    const release = await limiter.acquire(signal());
+    const controller = new AbortController();
+    const aborted = limiter.acquire(controller.signal);
+    const next = jest.fn();
+    const waiting = limiter.acquire(signal(), next);
+    expect(next).toHaveBeenLastCalledWith(2);
+
+    controller.abort();
+    await expect(aborted).rejects.toMatchObject({ name: 'AbortError' });
+    expect(next).toHaveBeenLastCalledWith(1);
+
+    release();
+    await expect(waiting).resolves.toEqual(expect.any(Function));
+  });
+
+  it('releases a slot once, however often release is called', async () => {
+    const limiter = new ConcurrencyLimiter(() => 1);
+    const release = await limiter.acquire(signal());
+    release();
+    release();
+    await limiter.acquire(signal());
+    const queued = jest.fn();
+    limiter.acquire(signal(), queued);
+    expect(queued).toHaveBeenCalledWith(1);
+  });
+
+  it('reads the limit on every grant', async () => {
+    let limit = 1;
+    const limiter = new ConcurrencyLimiter(() => limit);
+    await limiter.acquire(signal());
+    limit = Infinity;
+    await expect(limiter.acquire(signal())).resolves.toEqual(expect.any(Function));
+  });
+});
@@ -0,0 +1,81 @@
+import { abortError } from './cache';
+
+type Waiter = {
+  grant: () => void;
+  onQueued?: (position: number) => void;
+};
+
+/**
+ * FIFO limit on concurrently running searches, shared by every query of a
+ * datasource instance (all panels of a dashboard), so a large dashboard stays
+ * within the Splunk user's search quota.
+ * - `limit()` is read on every grant; Infinity disables the limit.
+ * - Waiters are told their 1-based queue position whenever it changes.
+ * - A waiter whose signal aborts leaves the queue without taking a slot.
+ */
+export class ConcurrencyLimiter {
+  private running = 0;
+  private readonly queue: Waiter[] = [];
+
+  constructor(private readonly limit: () => number) {}
+
+  /** Resolves with a release function once a slot is free. */
+  acquire(signal: AbortSignal, onQueued?: (position: number) => void): Promise<() => void> {
+    if (signal.aborted) {
+      return Promise.reject(abortError());
+    }
+    if (!this.queue.length && this.running < this.limit()) {
+      this.running++;
+      return Promise.resolve(this.releaser());
+    }
+
+    return new Promise((resolve, reject) => {
+      const waiter: Waiter = {
+        onQueued,
+        grant: () => {
+          signal.removeEventListener('abort', onAbort);
+          resolve(this.releaser());
+        },
+      };
+      const onAbort = () => {
+        const i = this.queue.indexOf(waiter);
+        if (i >= 0) {
+          this.queue.splice(i, 1);
+          this.notify(i);
+        }
+        reject(abortError());
+      };
+      signal.addEventListener('abort', onAbort, { once: true });
+      this.queue.push(waiter);
+      onQueued?.(this.queue.length);
+    });
+  }
+
+  private releaser(): () => void {
+    let released = false;
+    return () => {
+      if (released) {
+        return;
+      }
+      released = true;
+      this.running--;
+      this.drain();
+    };
+  }
+
+  private drain() {
+    let granted = false;
+    while (this.queue.length && this.running < this.limit()) {
+      this.running++;
+      this.queue.shift()!.grant();
+      granted = true;
+    }
+    if (granted) {
+      this.notify(0);
+    }
+  }
+
+  private notify(from: number) {
+    this.queue.slice(from).forEach((w, i) => w.onQueued?.(from + i + 1));
+  }
+}
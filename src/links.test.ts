@@ -0,0 +1,61 @@
+import { createDataFrame, FieldType } from '@grafana/data';
+import { savedSearchSPL, splunkSearchUrl, withDataLinks } from './links';
+
+const WEB = 'https://splunk.example.com:8000/';
+
+describe('splunkSearchUrl', () => {
+  it('opens the search page of the app over the window', () => {
+    expect(splunkSearchUrl(WEB, 'index=web | stats count', 1_000_500, 2_000_500, 'my app')).toBe(
+      'https://splunk.example.com:8000/app/my%20app/search?q=search%20index%3Dweb%20%7C%20stats%20count&earliest=1000&latest=2001'
+    );
+  });
+
+  it('does not prefix a generating command', () => {
+    expect(splunkSearchUrl(WEB, ' | tstats count', 0, 0)).toBe(
+      'https://splunk.example.com:8000/app/search/search?q=%7C%20tstats%20count&earliest=0&latest=0'
+    );
+  });
+});
+
+describe('savedSearchSPL', () => {
+  it('runs the saved search by its escaped name', () => {
+    expect(savedSearchSPL({ name: 'Errors "today"', app: 'ops', owner: 'admin' })).toBe(
+      '| savedsearch "Errors \\"today\\""'
+    );
+  });
+});
+
+describe('withDataLinks', () => {
+  const frame = createDataFrame({
+    fields: [
+      { name: 'host', type: FieldType.string, values: ['web-1'] },
+      { name: 'count', type: FieldType.number, values: [3] },
+    ],
+  });
+
+  it('links the named field to its search over the dashboard range', () => {
+    const linked = withDataLinks(frame, [{ field: 'host', search: 'index=web host="$value"' }], WEB, 'ops');
+    expect(linked.fields[0].config.links).toEqual([
+      {
+        title: 'Search host in Splunk',
+        url:
+          'https://splunk.example.com:8000/app/ops/search?q=search%20index%3Dweb%20host%3D%22${__value.raw:percentencode}%22' +
+          '&earliest=${__from:date:seconds}&latest=${__to:date:seconds}',
+        targetBlank: true,
+      },
+    ]);
+    expect(linked.fields[1].config.links).toBeUndefined();
+  });
+
+  it('uses the link title and the default app', () => {
+    const linked = withDataLinks(frame, [{ field: 'count', title: 'Drill', search: '| savedsearch x' }], WEB);
+    expect(linked.fields[1].config.links?.[0]).toMatchObject({
+      title: 'Drill',
+      url: expect.stringMatching(/^https:\/\/splunk\.example\.com:8000\/app\/search\/search\?q=%7C%20savedsearch%20x&/),
+    });
+  });
+
+  it('skips incomplete links', () => {
+    expect(withDataLinks(frame, [{ field: 'host', search: ' ' }], WEB)).toBe(frame);
+  });
+});
@@ -0,0 +1,66 @@
+import { DataFrame, DataLink } from '@grafana/data';
+import { escapeSplunkValue } from './spl';
+import { SplunkDataLink, SplunkSavedSearchRef } from './types';
+
+/**
+ * Links into Splunk Web's search page: "Open in Splunk" for a query or its
+ * frames, and data links from result fields to drilldown searches.
+ */
+
+const DEFAULT_APP = 'search';
+
+// Replaced by the clicked value in a data link's search
+const VALUE_TOKEN = '$value';
+
+// Grafana fills these in when a data link is clicked
+const LINK_VALUE = '${__value.raw:percentencode}';
+const LINK_RANGE = 'earliest=${__from:date:seconds}&latest=${__to:date:seconds}';
+
+/** The search page's `q`: SPL that doesn't start with a generating command needs a leading `search`. */
+function searchParam(spl: string): string {
+  const s = spl.trim();
+  return s.startsWith('|') ? s : `search ${s}`;
+}
+
+function searchPage(webUrl: string, app: string): string {
+  return `${webUrl.trim().replace(/\/+$/, '')}/app/${encodeURIComponent(app)}/search`;
+}
+
+/** Splunk Web running `spl` over [from, to] (epoch ms). */
+export function splunkSearchUrl(webUrl: string, spl: string, from: number, to: number, app = DEFAULT_APP): string {
+  const q = encodeURIComponent(searchParam(spl));
+  return `${searchPage(webUrl, app)}?q=${q}&earliest=${Math.floor(from / 1000)}&latest=${Math.ceil(to / 1000)}`;
+}
+
+/** SPL that runs a saved search by name, for linking to it. */
+export function savedSearchSPL(saved: SplunkSavedSearchRef): string {
+  return `| savedsearch "${escapeSplunkValue(saved.name)}"`;
+}
+
+function dataLink(link: SplunkDataLink, webUrl: string, app: string): DataLink {
+  const q = searchParam(link.search).split(VALUE_TOKEN).map(encodeURIComponent).join(LINK_VALUE);
+  return {
+    title: link.title?.trim() || `Search ${link.field} in Splunk`,
+    url: `${searchPage(webUrl, app)}?q=${q}&${LINK_RANGE}`,
+    targetBlank: true,
+  };
+}
+
+/** Adds the configured data links to the frame's fields they name; the search runs over the dashboard range. */
+export function withDataLinks(frame: DataFrame, links: SplunkDataLink[], webUrl: string, app = DEFAULT_APP): DataFrame {
+  const usable = links.filter((l) => l.field?.trim() && l.search?.trim());
+  if (!usable.length) {
+    return frame;
+  }
+  return {
+    ...frame,
+    fields: frame.fields.map((field) => {
+      const own = usable.filter((l) => l.field.trim() === field.name);
+      if (!own.length) {
+        return field;
+      }
+      const added = own.map((l) => dataLink(l, webUrl, app));
+      return { ...field, config: { ...field.config, links: [...(field.config.links ?? []), ...added] } };
+    }),
+  };
+}
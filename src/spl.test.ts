@@ -0,0 +1,105 @@
+import { describeStage, escapeSplunkValue, insertStage, parseSPL, withoutSubsearches } from './spl';
+
+const commands = (spl: string) => parseSPL(spl).map((s) => s.command);
+
+describe('parseSPL', () => {
+  it('starts a pipeline without a leading pipe with an implicit search', () => {
+    const [first, second] = parseSPL('index=web error | stats count by host');
+    expect(first).toMatchObject({ command: 'search', args: 'index=web error', index: 1, implicit: true });
+    expect(second).toMatchObject({ command: 'stats', args: 'count by host', index: 2, implicit: false });
+  });
+
+  it('reads a leading pipe as a generating command', () => {
+    expect(commands('| tstats count where index=web | sort -count')).toEqual(['tstats', 'sort']);
+    expect(parseSPL('| makeresults')[0]).toMatchObject({ index: 1, implicit: false });
+  });
+
+  it('keeps an explicit search command', () => {
+    expect(parseSPL('search index=web')[0]).toMatchObject({ command: 'search', args: 'index=web', implicit: false });
+  });
+
+  it('lower-cases command names', () => {
+    expect(commands('index=web | STATS count')).toEqual(['search', 'stats']);
+  });
+
+  it('does not split on pipes in quoted strings, escaped quotes included', () => {
+    expect(commands('index=web msg="a | delete" | stats count')).toEqual(['search', 'stats']);
+    expect(commands('index=web msg="a \\" | delete" | stats count')).toEqual(['search', 'stats']);
+  });
+
+  it('does not split on pipes in macros', () => {
+    const stages = parseSPL('index=web | `my_macro(a|b)` | stats count');
+    expect(stages.map((s) => s.command)).toEqual(['search', '`my_macro(a|b)`', 'stats']);
+  });
+
+  it('parses subsearches as pipelines of their own, after the stage holding them', () => {
+    const stages = parseSPL('index=web [ search index=db | delete | fields host ] | stats count');
+    expect(stages.map((s) => s.command)).toEqual(['search', 'search', 'delete', 'fields', 'stats']);
+    const inner = stages[2];
+    expect(inner.parent).toBe(stages[0]);
+    expect(inner.index).toBe(2);
+    expect(describeStage(inner)).toBe('stage 2 of the subsearch in stage 1');
+  });
+
+  it('parses nested subsearches', () => {
+    const stages = parseSPL('index=a [ search index=b [ | inputlookup x | delete ] ]');
+    const banned = stages.find((s) => s.command === 'delete')!;
+    expect(describeStage(banned)).toBe('stage 2 of the subsearch in stage 1 of the subsearch in stage 1');
+  });
+
+  it('still inspects an unbalanced subsearch', () => {
+    expect(commands('index=web [ search index=db | delete')).toContain('delete');
+  });
+
+  it('records stage offsets without surrounding whitespace', () => {
+    const spl = 'index=web  |  stats count ';
+    const [first, second] = parseSPL(spl);
+    expect(spl.slice(first.start, first.end)).toBe('index=web');
+    expect(spl.slice(second.start, second.end)).toBe('stats count');
+  });
+
+  it('records subsearch stage offsets in the whole search', () => {
+    const spl = 'index=web [ search index=db | delete ]';
+    const banned = parseSPL(spl).find((s) => s.command === 'delete')!;
+    expect(spl.slice(banned.start, banned.end)).toBe('delete');
+  });
+
+  it('skips empty stages', () => {
+    expect(commands('index=web || stats count |')).toEqual(['search', 'stats']);
+    expect(parseSPL('')).toEqual([]);
+  });
+});
+
+describe('withoutSubsearches', () => {
+  it('drops the contents of top-level subsearches', () => {
+    expect(withoutSubsearches('index=web [ search index=db ] host=a')).toBe('index=web [] host=a');
+  });
+});
+
+describe('insertStage', () => {
+  it('inserts after the first stage', () => {
+    expect(insertStage('index=web | stats count', 'search host="a"')).toBe('index=web | search host="a" | stats count');
+  });
+
+  it('appends to a single-stage search', () => {
+    expect(insertStage('index=web ', 'search host="a"')).toBe('index=web | search host="a"');
+  });
+
+  it('inserts after a generating command', () => {
+    expect(insertStage('| tstats count by host | sort host', 'search host="a"')).toBe(
+      '| tstats count by host | search host="a" | sort host'
+    );
+  });
+
+  it('ignores pipes in quoted strings and subsearches', () => {
+    expect(insertStage('index=web [ search x | head 1 ] msg="a|b" | stats count', 'search y')).toBe(
+      'index=web [ search x | head 1 ] msg="a|b" | search y | stats count'
+    );
+  });
+});
+
+describe('escapeSplunkValue', () => {
+  it('escapes quotes and backslashes', () => {
+    expect(escapeSplunkValue('DOMAIN\\user "x"')).toBe('DOMAIN\\\\user \\"x\\"');
+  });
+});
@@ -0,0 +1,177 @@
+/**
+ * A minimal SPL tokenizer: enough structure to reason about which commands a
+ * search runs, without interpreting their arguments.
+ * - pipelines split on `|` outside of quoted strings, subsearches and macros
+ * - subsearches (`[ ... ]`) are parsed as pipelines of their own
+ * - a pipeline that does not start with `|` begins with an implicit `search`
+ */
+
+export interface SplStage {
+  /** Command name, lower-cased; `search` for an implicit leading search, the whole token for a macro */
+  command: string;
+  /** Text after the command name */
+  args: string;
+  /** 1-based position in its pipeline */
+  index: number;
+  /** True when the stage is the implicit `search` at the start of a pipeline */
+  implicit: boolean;
+  /** Stage holding the subsearch this stage belongs to; undefined at the top level */
+  parent?: SplStage;
+  /** Offsets of the stage's text in the parsed search, surrounding whitespace excluded */
+  start: number;
+  end: number;
+}
+
+type Span = { start: number; end: number };
+
+/**
+ * Walks `text` at nesting depth 0, skipping quoted strings, backtick macros and
+ * bracketed subsearches. Calls `onSeparator` for each top-level `|` and
+ * `onSubsearch` with the span inside each top-level `[ ... ]`.
+ */
+function scan(text: string, onSeparator: (i: number) => void, onSubsearch: (span: Span) => void) {
+  let depth = 0;
+  let open = -1;
+  for (let i = 0; i < text.length; i++) {
+    const c = text[i];
+    if (c === '"') {
+      // Quoted string; backslash escapes the next character
+      for (i++; i < text.length && text[i] !== '"'; i++) {
+        if (text[i] === '\\') {
+          i++;
+        }
+      }
+    } else if (c === '`') {
+      const close = text.indexOf('`', i + 1);
+      i = close < 0 ? text.length : close;
+    } else if (c === '[') {
+      if (depth++ === 0) {
+        open = i;
+      }
+    } else if (c === ']' && depth > 0) {
+      if (--depth === 0) {
+        onSubsearch({ start: open + 1, end: i });
+      }
+    } else if (c === '|' && depth === 0) {
+      onSeparator(i);
+    }
+  }
+  // Unbalanced `[`: still inspect what follows it
+  if (depth > 0 && open >= 0) {
+    onSubsearch({ start: open + 1, end: text.length });
+  }
+}
+
+function commandOf(text: string): { command: string; args: string } {
+  const t = text.trimStart();
+  if (t.startsWith('`')) {
+    const close = t.indexOf('`', 1);
+    const end = close < 0 ? t.length : close + 1;
+    return { command: t.slice(0, end), args: t.slice(end).trim() };
+  }
+  const m = /^[A-Za-z_][\w-]*/.exec(t);
+  if (!m) {
+    return { command: '', args: t.trim() };
+  }
+  return { command: m[0].toLowerCase(), args: t.slice(m[0].length).trim() };
+}
+
+function parsePipeline(text: string, offset: number, parent: SplStage | undefined, out: SplStage[]) {
+  const cuts: number[] = [];
+  scan(
+    text,
+    (i) => cuts.push(i),
+    () => {}
+  );
+
+  const segments: Span[] = [];
+  let from = 0;
+  for (const cut of cuts) {
+    segments.push({ start: from, end: cut });
+    from = cut + 1;
+  }
+  segments.push({ start: from, end: text.length });
+
+  // A leading `|` means the pipeline starts with a generating command
+  const generating = text.trimStart().startsWith('|');
+  if (generating) {
+    segments.shift();
+  }
+
+  let index = 0;
+  segments.forEach((seg, i) => {
+    const raw = text.slice(seg.start, seg.end);
+    if (!raw.trim()) {
+      return;
+    }
+    let { command, args } = commandOf(raw);
+    const implicit = i === 0 && !generating && command !== 'search';
+    if (implicit) {
+      command = 'search';
+      args = raw.trim();
+    }
+
+    const start = offset + seg.start + (raw.length - raw.trimStart().length);
+    const end = offset + seg.end - (raw.length - raw.trimEnd().length);
+    const stage: SplStage = { command, args, index: ++index, implicit, parent, start, end };
+    out.push(stage);
+
+    scan(
+      raw,
+      () => {},
+      (span) => parsePipeline(raw.slice(span.start, span.end), offset + seg.start + span.start, stage, out)
+    );
+  });
+}
+
+/** All pipeline stages of a search, including those inside subsearches (outer stage first). */
+export function parseSPL(spl: string): SplStage[] {
+  const out: SplStage[] = [];
+  parsePipeline(spl ?? '', 0, undefined, out);
+  return out;
+}
+
+/** Human-readable position, e.g. "stage 3" or "stage 1 of the subsearch in stage 2". */
+export function describeStage(stage: SplStage): string {
+  const here = `stage ${stage.index}`;
+  return stage.parent ? `${here} of the subsearch in ${describeStage(stage.parent)}` : here;
+}
+
+/** `text` with the contents of top-level subsearches removed, e.g. to inspect a stage's own arguments. */
+export function withoutSubsearches(text: string): string {
+  let out = '';
+  let from = 0;
+  scan(
+    text,
+    () => {},
+    (span) => {
+      out += text.slice(from, span.start);
+      from = span.end;
+    }
+  );
+  return out + text.slice(from);
+}
+
+/**
+ * Inserts `stage` as a new pipeline stage right after the first top-level stage,
+ * e.g. `index=web | stats count` becomes `index=web | search host="a" | stats count`.
+ */
+export function insertStage(spl: string, stage: string): string {
+  const cuts: number[] = [];
+  scan(
+    spl,
+    (i) => cuts.push(i),
+    () => {}
+  );
+  // A leading `|` opens the generating command rather than ending a stage
+  const cut = cuts[spl.trimStart().startsWith('|') ? 1 : 0];
+  if (cut === undefined) {
+    return `${spl.trimEnd()} | ${stage}`;
+  }
+  return `${spl.slice(0, cut).trimEnd()} | ${stage} ${spl.slice(cut)}`;
+}
+
+/** Escapes quotes and backslashes so `v` can be embedded in a quoted SPL string. */
+export function escapeSplunkValue(v: string): string {
+  return String(v).replace(/(["\\])/g, '\\$1');
+}
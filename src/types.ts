@@ -1,15 +1,157 @@
-import type { DataSourceJsonData, ScopedVars } from '@grafana/data';
+import type { DataSourceJsonData, ScopedVars, SelectableValue } from '@grafana/data';
 
 /**
- * Query model used by QueryEditor + VariableQueryEditor
+ * How results are shaped into frames:
+ * - spl: table frame built from the result schema
+ * - timeseries: timechart / chart over _time output as time series
+ * - logs: event searches as a logs frame (Explore / Logs panel)
+ */
+export type SplunkQueryType = 'spl' | 'timeseries' | 'logs';
+
+/** wide = one frame with a field per series; long = one labeled frame per series */
+export type SeriesLayout = 'wide' | 'long';
+
+/** Where the search comes from: SPL typed in the editor, or a saved search / report */
+export type SplunkSearchType = 'spl' | 'saved';
+
+/**
+ * dispatch = run the saved search over the dashboard time range
+ * history = load the results of its most recent scheduled run
+ */
+export type SavedSearchMode = 'dispatch' | 'history';
+
+/** SPL queries are written in the code editor or generated by the visual builder */
+export type EditorMode = 'code' | 'builder';
+
+/** Builder aggregations; perc is a percentile, e.g. perc95(field) */
+export type BuilderAggregation = 'count' | 'avg' | 'sum' | 'dc' | 'perc';
+
+export type BuilderOperator = '=' | '!=' | '>' | '>=' | '<' | '<=';
+
+export interface BuilderFilter {
+  field: string;
+  operator: BuilderOperator;
+  value: string;
+}
+
+/** The visual builder's state; builderSPL() turns it into the query's SPL */
+export interface SplunkBuilderQuery {
+  index?: string;
+  sourcetype?: string;
+  host?: string;
+  filters?: BuilderFilter[];
+  aggregation?: BuilderAggregation; // none: the matching events themselves
+  aggregationField?: string; // every aggregation but count
+  percentile?: number; // perc (default 95)
+  splitBy?: string[]; // timechart splits by the first field only
+  timechart?: boolean; // aggregate over _time (count when no aggregation is set)
+  span?: string; // timechart bucket, e.g. 5m (default: Splunk picks one for the range)
+}
+
+/** Variable query modes: free SPL, or a search generated from a small form */
+export type VariableMode = 'spl' | 'indexes' | 'sourcetypes' | 'hosts' | 'sources' | 'fieldValues';
+
+/** Order of variable options; asc/desc compare naturally (sw2 before sw10) */
+export type VariableSort = 'none' | 'asc' | 'desc';
+
+/** Annotation queries: events from an SPL search, or alerts Splunk has triggered */
+export type AnnotationSource = 'spl' | 'firedAlerts';
+
+/**
+ * How a search is run on Splunk:
+ * - normal: async job, polled until done and paged (default)
+ * - oneshot: results in the create call (exec_mode=oneshot)
+ * - blocking: create call returns when the job is done (exec_mode=blocking)
+ * - export: results streamed from /services/search/jobs/export
+ */
+export type SplunkExecMode = 'normal' | 'oneshot' | 'blocking' | 'export';
+
+/** Execution mode choices shown by ConfigEditor and QueryEditor */
+export const EXEC_MODES: Array<SelectableValue<SplunkExecMode>> = [
+  { label: 'Normal', value: 'normal', description: 'Async job, polled and paged; cancellable, streams previews' },
+  { label: 'Oneshot', value: 'oneshot', description: 'Results in a single call; best for small searches' },
+  { label: 'Blocking', value: 'blocking', description: 'One call that returns when the job is done' },
+  { label: 'Export', value: 'export', description: 'Stream results from /search/jobs/export' },
+];
+
+/**
+ * Splunk namespace (/servicesNS/{owner}/{app}): the app context that resolves
+ * macros, lookups, eventtypes and field extractions, and the user whose private
+ * knowledge objects are visible
+ */
+export interface SplunkNamespace {
+  owner: string;
+  app: string;
+}
+
+/** A saved search is addressed by its namespace and name */
+export interface SplunkSavedSearchRef extends SplunkNamespace {
+  name: string;
+}
+
+/** An installed app, for the app pickers */
+export interface SplunkApp {
+  name: string;
+  label: string;
+  visible: boolean; // hidden apps (add-ons) still provide knowledge objects
+}
+
+export interface SplunkSavedSearch extends SplunkSavedSearchRef {
+  search: string;
+  isScheduled: boolean;
+}
+
+/**
+ * Query model used by QueryEditor, VariableQueryEditor and AnnotationEditor
  */
 export interface SplunkQuery {
   refId: string;
   queryText?: string;
-  queryType?: string;
+  queryType?: SplunkQueryType;
+  searchType?: SplunkSearchType;
+  savedSearch?: SplunkSavedSearchRef;
+  savedSearchMode?: SavedSearchMode;
+  execMode?: SplunkExecMode; // overrides the datasource default
+  app?: string; // namespace to run SPL in, overrides the datasource default (saved searches use their own)
+  owner?: string;
+  timeField?: string; // column used as the frame's time field (default: _time)
+  editorMode?: EditorMode; // default: code, or builder for a new query
+  builder?: SplunkBuilderQuery; // builder mode writes its SPL to queryText
+
+  // Time series (queryType: 'timeseries')
+  seriesLayout?: SeriesLayout;
+  dropNullSeries?: boolean; // drop timechart's NULL column (events without the split-by field)
+  dropOtherSeries?: boolean; // drop timechart's OTHER column (series beyond the limit)
+
+  // Annotations: result columns mapped onto each event (time comes from timeField)
+  annotationSource?: AnnotationSource; // default: spl
+  timeEndField?: string; // makes the annotation a region
+  titleField?: string;
+  textField?: string; // default: _raw
+  tagsField?: string; // comma-separated columns; multi-value and comma-separated values become separate tags
+  alertName?: string; // fired alerts: saved search name, `*` wildcards allowed (empty = all)
+  alertApp?: string; // fired alerts: app the alert belongs to (empty = all)
+
+  // Variables
+  variableMode?: VariableMode; // default: spl
+  variableIndex?: string; // typed modes: indexes to look in, comma-separated (default: the allowed indexes, else *)
+  variableField?: string; // fieldValues: field whose distinct values become options
+  variableFilter?: string; // fieldValues: extra search terms, e.g. sourcetype=syslog
+  variableWindow?: string; // fixed window instead of the dashboard range, e.g. now-24h (to now)
+  variableSort?: VariableSort; // default: none (Splunk's order)
   [key: string]: any;
 }
 
+/** A link from a result field to a Splunk search, offered on the field's values */
+export interface SplunkDataLink {
+  field: string; // result field the link is added to
+  title?: string; // default: Search <field> in Splunk
+  search: string; // SPL with $value for the clicked value, e.g. index=web status=$value
+}
+
+/** Built-in banned-command lists, see guardrails.ts */
+export type GuardrailPreset = 'strict' | 'standard' | 'permissive';
+
 /**
  * Datasource options shown in ConfigEditor (non-secure)
  * These keys match what your ConfigEditor writes into jsonData.
@@ -21,16 +163,39 @@ export interface SplunkDataSourceOptions extends DataSourceJsonData {
   // Guardrails
   safeMode?: boolean;
   maxRangeSeconds?: number;
+  clampTimeRange?: boolean; // shorten over-long ranges to maxRangeSeconds instead of rejecting
   maxRows?: number;
   pageSize?: number;
   pollIntervalMs?: number;
   maxPolls?: number;
-  requestTimeoutMs?: number;
+  requestTimeoutMs?: number; // each Splunk REST call (0 = no limit, default 30000)
+  queryTimeoutSeconds?: number; // whole query, queue wait and retries included (0 = no limit, default 300)
+  maxConcurrentSearches?: number; // searches running at once across all panels (0 = no limit, default 3)
+  streamPartialResults?: boolean; // emit results_preview while jobs run (default: true)
+  execMode?: SplunkExecMode; // default execution mode for queries (default: normal)
+
+  // Namespace searches run in; neither set uses /services (the service user's default app)
+  defaultApp?: string; // default: search when only the owner is set
+  defaultOwner?: string; // default: nobody when only the app is set
+
+  // Result cache
+  cacheTtlSeconds?: number; // keep finished results this long (0 = off, default 30)
+  cacheGranularitySeconds?: number; // round the search window to this (0 = exact, default 10)
 
   // Commands
+  guardrailPreset?: GuardrailPreset; // used unless overrideBannedCommands (default: standard)
   overrideBannedCommands?: boolean;
   bannedCommands?: string; // newline-separated regex fragments
   allowDangerousCommands?: boolean;
+
+  // Data scope
+  allowedIndexes?: string; // newline-separated index names, `*` wildcards allowed (empty = any)
+  requireIndex?: boolean; // reject index-scanning searches without an explicit index, or with index=*
+  adHocIndex?: string; // ad-hoc filters: indexes whose fields and values are offered (default: allowedIndexes, else *)
+
+  // Splunk Web
+  splunkWebUrl?: string; // e.g. https://splunk.example.com:8000; enables "Open in Splunk" and data links
+  dataLinks?: SplunkDataLink[];
 }
 
 /**
@@ -44,6 +209,9 @@ export interface SplunkSecureJsonData {
 /** Optional helper alias for template var handling */
 export type TemplateVars = ScopedVars;
 
+/** Splunk's event timestamp column */
+export const DEFAULT_TIME_FIELD = '_time';
+
 /** Default query for new panels */
 export const DEFAULT_QUERY: SplunkQuery = {
   refId: 'A',
@@ -0,0 +1,102 @@
+import { BARE_FIELD, BARE_VALUE, indexClause, quoted, toMetricFindValues, variableSearch } from './variables';
+
+describe('toMetricFindValues', () => {
+  it('uses the first column as text and value, one option per multi-value entry', () => {
+    expect(
+      toMetricFindValues([{ host: 'web-1', count: 3 }, { host: ['web-2', 'web-3'] }, { host: '' }], undefined)
+    ).toEqual([
+      { text: 'web-1', value: 'web-1' },
+      { text: 'web-2', value: 'web-2' },
+      { text: 'web-3', value: 'web-3' },
+    ]);
+  });
+
+  it('reads text and value from __text and __value', () => {
+    const rows = [
+      { __value: 'id-1', __text: 'Web one' },
+      { __value: 'id-2', __text: '' },
+      { __value: '', __text: 'no value' },
+    ];
+    expect(toMetricFindValues(rows, ['__text', '__value'])).toEqual([
+      { text: 'Web one', value: 'id-1' },
+      { text: 'id-2', value: 'id-2' },
+    ]);
+  });
+
+  it('uses __text or __value alone as both', () => {
+    expect(toMetricFindValues([{ other: 'x', __value: 'v' }], undefined)).toEqual([{ text: 'v', value: 'v' }]);
+    expect(toMetricFindValues([{ other: 'x', __text: 't' }], undefined)).toEqual([{ text: 't', value: 't' }]);
+  });
+
+  it('dedupes by value, keeping the first text', () => {
+    const rows = [
+      { __value: 'a', __text: 'first' },
+      { __value: 'a', __text: 'second' },
+    ];
+    expect(toMetricFindValues(rows, undefined)).toEqual([{ text: 'first', value: 'a' }]);
+  });
+
+  it('sorts in natural order when asked', () => {
+    const rows = [{ sw: 'sw10' }, { sw: 'sw2' }, { sw: 'sw1' }];
+    expect(toMetricFindValues(rows, undefined).map((o) => o.text)).toEqual(['sw10', 'sw2', 'sw1']);
+    expect(toMetricFindValues(rows, undefined, 'asc').map((o) => o.text)).toEqual(['sw1', 'sw2', 'sw10']);
+    expect(toMetricFindValues(rows, undefined, 'desc').map((o) => o.text)).toEqual(['sw10', 'sw2', 'sw1']);
+  });
+
+  it('returns no options for no rows', () => {
+    expect(toMetricFindValues([], undefined)).toEqual([]);
+  });
+});
+
+describe('quoted', () => {
+  it('leaves names, wildcards and variables bare, and quotes the rest', () => {
+    expect(quoted('web_*', BARE_VALUE)).toBe('web_*');
+    expect(quoted('$idx', BARE_VALUE)).toBe('$idx');
+    expect(quoted('web_*', BARE_FIELD)).toBe('"web_*"');
+    expect(quoted('a "b"', BARE_VALUE)).toBe('"a \\"b\\""');
+  });
+});
+
+describe('indexClause', () => {
+  it('ORs the listed indexes, falling back to the defaults, then *', () => {
+    expect(indexClause('web, db', [])).toBe('(index=web OR index=db)');
+    expect(indexClause('', ['main'])).toBe('index=main');
+    expect(indexClause(undefined, [])).toBe('index=*');
+  });
+});
+
+describe('variableSearch', () => {
+  it('lists metadata fields with tstats', () => {
+    expect(variableSearch({ refId: 'A', variableMode: 'sourcetypes', variableIndex: 'web' }, [])).toBe(
+      '| tstats count where index=web by sourcetype | sort - count | fields sourcetype'
+    );
+    expect(variableSearch({ refId: 'A', variableMode: 'indexes' }, ['main'])).toBe(
+      '| tstats count where index=main by index | sort - count | fields index'
+    );
+  });
+
+  it('lists field values, narrowed by the filter', () => {
+    expect(
+      variableSearch(
+        {
+          refId: 'A',
+          variableMode: 'fieldValues',
+          variableIndex: 'web',
+          variableField: 'user name',
+          variableFilter: 'status=500',
+        },
+        []
+      )
+    ).toBe(
+      'search index=web "user name"=* status=500 | fields "user name" | stats count by "user name" | sort - count | fields "user name"'
+    );
+  });
+
+  it('is empty until a field is picked', () => {
+    expect(variableSearch({ refId: 'A', variableMode: 'fieldValues', variableField: ' ' }, [])).toBe('');
+  });
+
+  it('runs typed SPL as is', () => {
+    expect(variableSearch({ refId: 'A', queryText: '| inputlookup hosts' }, [])).toBe('| inputlookup hosts');
+  });
+});
@@ -0,0 +1,108 @@
+import { MetricFindValue } from '@grafana/data';
+import { fieldNames, SplunkResultField, SplunkResultRow } from './frames';
+import { escapeSplunkValue } from './spl';
+import { SplunkQuery, VariableMode, VariableSort } from './types';
+
+// Columns that set a variable option's text and value separately
+const TEXT_FIELD = '__text';
+const VALUE_FIELD = '__value';
+
+function cellValues(v: unknown): string[] {
+  const values = Array.isArray(v) ? v : [v];
+  return values.filter((x) => x != null && x !== '').map(String);
+}
+
+/**
+ * Maps variable query results to options:
+ * - `__text` / `__value` columns give each option its text and value (either alone serves as both)
+ * - otherwise the first column is both, and each value of a multi-value cell is an option
+ * Options are deduped by value (the first text wins) and optionally sorted.
+ */
+export function toMetricFindValues(
+  rows: SplunkResultRow[],
+  fields: SplunkResultField[] | undefined,
+  sort: VariableSort = 'none'
+): MetricFindValue[] {
+  const names = fieldNames(fields, rows);
+  const textField = names.includes(TEXT_FIELD) ? TEXT_FIELD : undefined;
+  const valueField = names.includes(VALUE_FIELD) ? VALUE_FIELD : undefined;
+
+  const options: MetricFindValue[] = [];
+  const seen = new Set<string>();
+  const push = (text: string, value: string) => {
+    if (!seen.has(value)) {
+      seen.add(value);
+      options.push({ text, value });
+    }
+  };
+
+  for (const row of rows) {
+    if (textField || valueField) {
+      const value = cellValues(row[(valueField ?? textField)!]).join(', ');
+      const text = cellValues(row[(textField ?? valueField)!]).join(', ');
+      if (value) {
+        push(text || value, value);
+      }
+    } else if (names.length) {
+      cellValues(row[names[0]]).forEach((v) => push(v, v));
+    }
+  }
+
+  if (sort !== 'none') {
+    const dir = sort === 'desc' ? -1 : 1;
+    // Natural order, so numbers and numbered names (sw2, sw10) sort by value
+    options.sort((a, b) => dir * String(a.text).localeCompare(String(b.text), undefined, { numeric: true }));
+  }
+  return options;
+}
+
+// ---------- Typed modes ----------
+// The indexed field each metadata mode lists
+const METADATA_FIELDS: Partial<Record<VariableMode, string>> = {
+  indexes: 'index',
+  sourcetypes: 'sourcetype',
+  hosts: 'host',
+  sources: 'source',
+};
+
+// Names, wildcards and $variables that can go into SPL unquoted
+export const BARE_VALUE = /^[\w*.:${}-]+$/;
+export const BARE_FIELD = /^[\w.:${}-]+$/;
+
+export function quoted(v: string, bare: RegExp): string {
+  return bare.test(v) ? v : `"${escapeSplunkValue(v)}"`;
+}
+
+/** `index=a` or `(index=a OR index=b)`; an empty list falls back to `defaults`, then `*`. */
+export function indexClause(indexes: string | undefined, defaults: string[]): string {
+  const listed = (indexes ?? '').split(/[\s,]+/).filter(Boolean);
+  const names = listed.length ? listed : defaults.length ? defaults : ['*'];
+  const terms = names.map((n) => `index=${quoted(n, BARE_VALUE)}`);
+  return terms.length > 1 ? `(${terms.join(' OR ')})` : terms[0];
+}
+
+/**
+ * SPL for a typed variable query, most frequent values first:
+ * - indexes, sourcetypes, hosts, sources: `tstats` over the index metadata, no events are read
+ * - fieldValues: distinct values of one field, extracting only that field
+ * Returns '' when the form is incomplete. `defaultIndexes` scopes queries that name no index.
+ */
+export function variableSearch(query: SplunkQuery, defaultIndexes: string[]): string {
+  const mode = query.variableMode ?? 'spl';
+  const indexes = indexClause(query.variableIndex, defaultIndexes);
+
+  const metadataField = METADATA_FIELDS[mode];
+  if (metadataField) {
+    return `| tstats count where ${indexes} by ${metadataField} | sort - count | fields ${metadataField}`;
+  }
+  if (mode === 'fieldValues') {
+    const field = query.variableField?.trim();
+    if (!field) {
+      return '';
+    }
+    const f = quoted(field, BARE_FIELD);
+    const terms = [indexes, `${f}=*`, query.variableFilter?.trim()].filter(Boolean).join(' ');
+    return `search ${terms} | fields ${f} | stats count by ${f} | sort - count | fields ${f}`;
+  }
+  return query.queryText ?? '';
+}